@@ -0,0 +1,191 @@
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from "http";
+import type { AddressInfo } from "net";
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  test,
+} from "vitest";
+import { ApiSync } from "./ApiSync";
+import { SyncError } from "./Sync";
+import type { UserProps } from "./User";
+
+// stub json-server - every test sets its own handler
+let handler: (req: IncomingMessage, res: ServerResponse) => void;
+let requests: string[] = [];
+let server: Server;
+let baseUrl: string;
+
+const reply = (res: ServerResponse, status: number, body: unknown) => {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(body));
+};
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    requests.push(`${req.method} ${req.url}`);
+    handler(req, res);
+  });
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}/users`;
+});
+
+afterAll(async () => {
+  server.closeAllConnections();
+  await new Promise((resolve) => server.close(resolve));
+});
+
+beforeEach(() => {
+  requests = [];
+});
+
+const syncError = async (promise: Promise<unknown>): Promise<SyncError> => {
+  const error = await promise.catch((error: unknown) => error);
+  expect(error).toBeInstanceOf(SyncError);
+  return error as SyncError;
+};
+
+describe("ApiSync", () => {
+  test("fetches a record", async () => {
+    handler = (req, res) => reply(res, 200, { id: "1", name: "a" });
+    const sync = new ApiSync<UserProps>(baseUrl);
+
+    expect(await sync.fetch("1")).toEqual({ id: "1", name: "a" });
+    expect(requests).toEqual(["GET /users/1"]);
+  });
+
+  test("retries a get after a 5xx", async () => {
+    let calls = 0;
+    handler = (req, res) =>
+      ++calls < 3 ? reply(res, 503, {}) : reply(res, 200, [{ id: "1" }]);
+    const sync = new ApiSync<UserProps>(baseUrl, { retries: 2, retryDelay: 1 });
+
+    expect(await sync.fetchAll()).toEqual([{ id: "1" }]);
+    expect(requests).toHaveLength(3);
+  });
+
+  test("does not retry a post", async () => {
+    handler = (req, res) => reply(res, 500, {});
+    const sync = new ApiSync<UserProps>(baseUrl, { retries: 2, retryDelay: 1 });
+
+    const error = await syncError(sync.save({ name: "a" }));
+    expect(error.kind).toBe("http");
+    expect(error.status).toBe(500);
+    expect(requests).toEqual(["POST /users"]);
+  });
+
+  test("does not retry a 4xx", async () => {
+    handler = (req, res) => reply(res, 404, {});
+    const sync = new ApiSync<UserProps>(baseUrl, { retries: 2, retryDelay: 1 });
+
+    const error = await syncError(sync.fetch("nope"));
+    expect(error.kind).toBe("http");
+    expect(error.status).toBe(404);
+    expect(requests).toHaveLength(1);
+  });
+
+  test("reports a timeout", async () => {
+    handler = (req, res) => setTimeout(() => reply(res, 200, {}), 200);
+    const sync = new ApiSync<UserProps>(baseUrl, { timeout: 20 });
+
+    const error = await syncError(sync.fetch("1"));
+    expect(error.kind).toBe("timeout");
+  });
+
+  test("reports a network error", async () => {
+    const sync = new ApiSync<UserProps>("http://127.0.0.1:1/users");
+
+    const error = await syncError(sync.fetch("1"));
+    expect(error.kind).toBe("network");
+  });
+
+  test("aborts the request and the retries", async () => {
+    handler = (req, res) => reply(res, 503, {});
+    const sync = new ApiSync<UserProps>(baseUrl, {
+      retries: 5,
+      retryDelay: 1000,
+    });
+    const controller = new AbortController();
+
+    const pending = syncError(
+      sync.save({ id: "1" }, { signal: controller.signal }),
+    );
+    setTimeout(() => controller.abort(), 50);
+
+    const error = await pending;
+    expect(error.kind).toBe("aborted");
+    expect(requests).toEqual(["PUT /users/1"]);
+  });
+
+  test("patches the changed fields in the configured format", async () => {
+    const bodies: unknown[] = [];
+    handler = (req, res) => {
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        bodies.push([req.headers["content-type"], JSON.parse(body)]);
+        reply(res, 200, { id: "1" });
+      });
+    };
+    const changes = { name: "b", age: undefined };
+
+    await new ApiSync<UserProps>(baseUrl).patch("1", changes);
+    await new ApiSync<UserProps>(baseUrl, { patchFormat: "merge-patch" }).patch(
+      "1",
+      changes,
+    );
+    await new ApiSync<UserProps>(baseUrl, { patchFormat: "json-patch" }).patch(
+      "1",
+      changes,
+    );
+
+    expect(requests).toEqual([
+      "PATCH /users/1",
+      "PATCH /users/1",
+      "PATCH /users/1",
+    ]);
+    expect(bodies).toEqual([
+      ["application/json", { name: "b", age: null }],
+      ["application/merge-patch+json", { name: "b", age: null }],
+      [
+        "application/json-patch+json",
+        [
+          { op: "add", path: "/name", value: "b" },
+          { op: "remove", path: "/age" },
+        ],
+      ],
+    ]);
+  });
+
+  test("reads the total of a query page from X-Total-Count", async () => {
+    handler = (req, res) => {
+      res.writeHead(200, {
+        "Content-Type": "application/json",
+        "X-Total-Count": "42",
+      });
+      res.end(JSON.stringify([{ id: "1", name: "a", age: 31 }]));
+    };
+
+    const page = await new ApiSync<UserProps>(baseUrl).fetchQuery({
+      where: [{ field: "age", op: ">", value: 30 }],
+      sort: [{ field: "name", order: "asc" }],
+      page: 2,
+      limit: 1,
+    });
+
+    expect(requests).toEqual([
+      "GET /users?age_gte=30&age_ne=30&_sort=name&_order=asc&_page=2&_limit=1",
+    ]);
+    expect(page).toEqual({
+      records: [{ id: "1", name: "a", age: 31 }],
+      total: 42,
+    });
+  });
+});
@@ -0,0 +1,273 @@
+import axios, {
+  AxiosError,
+  type AxiosRequestConfig,
+  type AxiosResponse,
+} from "axios";
+import {
+  ConflictError,
+  type HasId,
+  type RequestOptions,
+  type Sync,
+  SyncError,
+  nextVersion,
+  rootUrl,
+} from "./Sync";
+import { type PatchFormat, patchContentTypes, toPatch } from "./Patch";
+import { type Page, type QuerySpec, toParams } from "./Query";
+
+export interface ApiSyncOptions {
+  // ms per attempt, 0 - no timeout
+  timeout?: number;
+  // extra attempts of idempotent requests (get, put, patch, delete) after a timeout, network error or 5xx
+  retries?: number;
+  // ms before the first retry, doubled for every next one
+  retryDelay?: number;
+  // body of a patch request, "json" by default
+  patchFormat?: PatchFormat;
+}
+
+// rest api, e.g. json-server
+export class ApiSync<T extends HasId> implements Sync<T> {
+  constructor(
+    public baseUrl: string = rootUrl,
+    public options: ApiSyncOptions = {},
+  ) {}
+
+  fetch(id: string, options: RequestOptions = {}): Promise<T> {
+    return this.request<T>(
+      { method: "get", url: `${this.baseUrl}/${id}` },
+      options,
+      true,
+    );
+  }
+
+  fetchAll(options: RequestOptions = {}): Promise<T[]> {
+    return this.request<T[]>(
+      { method: "get", url: this.baseUrl },
+      options,
+      true,
+    );
+  }
+
+  // get /users?userId=1 - json-server filters on the query parameters
+  fetchWhere(filter: Partial<T>, options: RequestOptions = {}): Promise<T[]> {
+    return this.request<T[]>(
+      { method: "get", url: this.baseUrl, params: filter },
+      options,
+      true,
+    );
+  }
+
+  // get /users?age_gte=30&_page=2&_limit=20 - json-server sends the total of all pages in X-Total-Count
+  async fetchQuery(
+    query: QuerySpec<T>,
+    options: RequestOptions = {},
+  ): Promise<Page<T>> {
+    const response = await this.send<T[]>(
+      { method: "get", url: this.baseUrl, params: toParams(query) },
+      options,
+      true,
+    );
+    const total = Number(response.headers["x-total-count"]);
+    return {
+      records: response.data,
+      total: Number.isNaN(total) ? response.data.length : total,
+    };
+  }
+
+  // save - if id put, else post
+
+  async save(data: T, options: RequestOptions = {}): Promise<T> {
+    const { id } = data;
+
+    if (id) {
+      //put - the whole record
+
+      const version = await this.nextVersion(id, data, options);
+      return this.update(
+        id,
+        {
+          method: "put",
+          data: { ...data, version: version ?? (data.version ?? 0) + 1 },
+        },
+        options,
+      );
+    } else {
+      //post - a retry could create the record twice
+
+      return this.request<T>(
+        { method: "post", url: this.baseUrl, data: { ...data, version: 1 } },
+        options,
+        false,
+      );
+    }
+  }
+
+  // patch - only the changed fields, in the patchFormat of the options
+  async patch(
+    id: string,
+    changes: Partial<T>,
+    options: RequestOptions = {},
+  ): Promise<T> {
+    const format = this.options.patchFormat ?? "json";
+    const version = await this.nextVersion(id, changes, options);
+    const body = version === undefined ? changes : { ...changes, version };
+    return this.update(
+      id,
+      {
+        method: "patch",
+        data: toPatch(body, format),
+        headers: { "Content-Type": patchContentTypes[format] },
+      },
+      options,
+    );
+  }
+
+  // delete /users/:id - idempotent, can be retried
+  async delete(id: string, options: RequestOptions = {}): Promise<void> {
+    await this.request<unknown>(
+      { method: "delete", url: `${this.baseUrl}/${id}` },
+      options,
+      true,
+    );
+  }
+
+  // with an expected version the server copy is checked first, json-server ignores If-Match
+  private async nextVersion(
+    id: string,
+    changes: Partial<T>,
+    options: RequestOptions,
+  ): Promise<number | undefined> {
+    if (options.expectedVersion === undefined) {
+      return undefined;
+    }
+    const remote = await this.fetch(id, options);
+    return nextVersion({ ...remote, ...changes }, remote, options).version;
+  }
+
+  // put or patch of an existing record - the values are absolute, so it can be retried
+  private async update(
+    id: string,
+    config: AxiosRequestConfig,
+    options: RequestOptions,
+  ): Promise<T> {
+    const { expectedVersion } = options;
+    try {
+      return await this.request<T>(
+        {
+          ...config,
+          url: `${this.baseUrl}/${id}`,
+          headers: {
+            ...config.headers,
+            ...(expectedVersion === undefined
+              ? {}
+              : { "If-Match": `"${expectedVersion}"` }),
+          },
+        },
+        options,
+        true,
+      );
+    } catch (error) {
+      // a server that does check If-Match answers 412 Precondition Failed
+      if (error instanceof SyncError && error.status === 412) {
+        throw new ConflictError(await this.fetch(id, options));
+      }
+      throw error;
+    }
+  }
+
+  private async request<R>(
+    config: AxiosRequestConfig,
+    options: RequestOptions,
+    idempotent: boolean,
+  ): Promise<R> {
+    return (await this.send<R>(config, options, idempotent)).data;
+  }
+
+  private async send<R>(
+    config: AxiosRequestConfig,
+    options: RequestOptions,
+    idempotent: boolean,
+  ): Promise<AxiosResponse<R>> {
+    const retries = idempotent ? (this.options.retries ?? 0) : 0;
+    const retryDelay = this.options.retryDelay ?? 200;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await axios.request<R>({
+          ...config,
+          timeout: options.timeout ?? this.options.timeout ?? 0,
+          signal: options.signal,
+          params: { ...config.params, ...options.params },
+          // _embed=a&_embed=b instead of _embed[]=a&_embed[]=b
+          paramsSerializer: { indexes: null },
+          // timeouts are reported as ETIMEDOUT instead of ECONNABORTED
+          transitional: { clarifyTimeoutError: true },
+        });
+      } catch (error) {
+        const syncError = toSyncError(error, config);
+        if (attempt >= retries || !isRetryable(syncError)) {
+          throw syncError;
+        }
+        await delay(retryDelay * 2 ** attempt, options.signal);
+      }
+    }
+  }
+}
+
+const toSyncError = (error: unknown, config: AxiosRequestConfig): SyncError => {
+  const request = `${config.method?.toUpperCase()} ${config.url}`;
+  if (axios.isCancel(error)) {
+    return new SyncError(`${request} was aborted`, error, "aborted");
+  }
+  if (!(error instanceof AxiosError)) {
+    return new SyncError(`${request} failed`, error);
+  }
+  if (error.response) {
+    const { status } = error.response;
+    return new SyncError(
+      `${request} failed with status ${status}`,
+      error,
+      "http",
+      status,
+    );
+  }
+  if (
+    error.code === AxiosError.ETIMEDOUT ||
+    error.code === AxiosError.ECONNABORTED
+  ) {
+    return new SyncError(`${request} timed out`, error, "timeout");
+  }
+  return new SyncError(`${request} failed: ${error.message}`, error, "network");
+};
+
+const isRetryable = (error: SyncError): boolean => {
+  switch (error.kind) {
+    case "timeout":
+    case "network":
+      return true;
+    case "http":
+      return error.status !== undefined && error.status >= 500;
+    default:
+      return false;
+  }
+};
+
+// wait before the next attempt, an abort ends the wait right away
+const delay = (ms: number, signal?: AbortSignal): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const aborted = () => {
+      clearTimeout(timer);
+      reject(new SyncError("Request was aborted", signal?.reason, "aborted"));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", aborted);
+      resolve();
+    }, ms);
+    if (signal?.aborted) {
+      aborted();
+      return;
+    }
+    signal?.addEventListener("abort", aborted, { once: true });
+  });
+};
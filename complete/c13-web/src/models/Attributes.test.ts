@@ -0,0 +1,67 @@
+import { describe, expect, test } from "vitest";
+import type { ChangeSet } from "./Attributes";
+import { MemorySync } from "./MemorySync";
+import { User, type UserProps } from "./User";
+
+const fetched = async (): Promise<User> => {
+  const sync = new MemorySync<UserProps>([{ id: "1", name: "a", version: 1 }]);
+  const user = new User({ id: "1" }, { sync });
+  await user.fetch();
+  return user;
+};
+
+describe("dirty tracking", () => {
+  test("change carries the previous and the current value", async () => {
+    const user = await fetched();
+    const changes: ChangeSet<UserProps>[] = [];
+    user.on("change", (changeSet) => {
+      changes.push(changeSet);
+    });
+
+    user.set({ name: "b", age: 3 });
+
+    expect(changes).toEqual([
+      {
+        name: { previous: "a", current: "b" },
+        age: { previous: undefined, current: 3 },
+      },
+    ]);
+  });
+
+  test("previous is the synced value until the next save", async () => {
+    const user = await fetched();
+
+    user.set({ name: "b" });
+    expect(user.previous("name")).toBe("a");
+    expect(user.changedAttributes()).toEqual({ name: "b" });
+
+    await user.save();
+    expect(user.previous("name")).toBe("b");
+    expect(user.isDirty()).toBe(false);
+  });
+
+  test("revert drops the changed and the added fields", async () => {
+    const user = await fetched();
+    const changes: ChangeSet<UserProps>[] = [];
+    user.set({ name: "b", age: 3 });
+    user.on("change", (changeSet) => {
+      changes.push(changeSet);
+    });
+
+    user.revert();
+
+    expect(user.attributes.getAll()).toEqual({
+      id: "1",
+      name: "a",
+      version: 1,
+    });
+    expect("age" in user.attributes.getAll()).toBe(false);
+    expect(user.isDirty()).toBe(false);
+    expect(changes).toEqual([
+      {
+        name: { previous: "b", current: "a" },
+        age: { previous: 3, current: undefined },
+      },
+    ]);
+  });
+});
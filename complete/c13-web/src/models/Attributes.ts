@@ -1,21 +1,159 @@
 // import { UserProps } from "./User";
+import { History } from "./History";
+import {
+  type FieldErrors,
+  type Schema,
+  hasErrors,
+  validate,
+} from "./Validation";
+
+// field => its value before and after a change
+export type ChangeSet<T> = {
+  [K in keyof T]?: { previous: T[K]; current: T[K] };
+};
+
 export class Attributes<T extends object> {
-  constructor(public data: T) {}
+  // copy of the data at the last fetch or save
+  private synced: T;
+  // false until the first fetch or save, the server has none of the data yet
+  wasSynced: boolean = false;
+  // opt-in undo/redo, see enableHistory
+  history?: History<T>;
+
+  constructor(
+    public data: T,
+    public schema: Schema<T> = {},
+  ) {
+    this.synced = { ...data };
+  }
 
   // TODO: how to get an objet's property value when the property name is stored in a variable
   get = <K extends keyof T>(key: K): T[K] => {
     return this.data[key];
   };
 
-  set(update: T): void {
-    Object.assign(this.data, update);
+  // the update is applied only when its fields are valid, the errors are returned otherwise
+  set(update: Partial<T>): FieldErrors<T> {
+    const errors = validate(
+      this.schema,
+      { ...this.data, ...update },
+      Object.keys(update) as (keyof T)[],
+    );
+    if (!hasErrors(errors)) {
+      const changes = this.diff(update);
+      Object.assign(this.data, update);
+      this.history?.record(changes);
+    }
+    return errors;
   }
 
+  enableHistory = (maxDepth?: number): void => {
+    this.history = new History<T>(maxDepth);
+  };
+
+  // undo/redo return the applied changes, undefined when there is nothing to apply
+  undo = (): ChangeSet<T> | undefined => {
+    const changes = this.history?.undo();
+    if (!changes) {
+      return undefined;
+    }
+    const undone: ChangeSet<T> = {};
+    for (const key in changes) {
+      const change = changes[key];
+      if (change) {
+        this.data[key] = change.previous;
+        undone[key] = { previous: change.current, current: change.previous };
+      }
+    }
+    return undone;
+  };
+
+  redo = (): ChangeSet<T> | undefined => {
+    const changes = this.history?.redo();
+    if (!changes) {
+      return undefined;
+    }
+    for (const key in changes) {
+      const change = changes[key];
+      if (change) {
+        this.data[key] = change.current;
+      }
+    }
+    return changes;
+  };
+
+  // validate every field of the schema, e.g. before save
+  validate = (): FieldErrors<T> => {
+    return validate(this.schema, this.data);
+  };
+
   getAll = (): T => {
     return this.data;
   };
+
+  // what `update` would change in the current data
+  diff = (update: Partial<T>): ChangeSet<T> => {
+    return diff(this.data, { ...this.data, ...update });
+  };
+
+  // remember the current data (or the given server copy) as the server state
+  markSynced = (data: T = this.data): void => {
+    this.synced = { ...data };
+    this.wasSynced = true;
+  };
+
+  getSynced = (): T => {
+    return { ...this.synced };
+  };
+
+  // data from the server - no validation, no history, returns what changed
+  assign = (update: Partial<T>): ChangeSet<T> => {
+    const changes = this.diff(update);
+    Object.assign(this.data, update);
+    return changes;
+  };
+
+  isDirty = (): boolean => {
+    return Object.keys(this.changedAttributes()).length > 0;
+  };
+
+  // the fields that changed since the last fetch or save, with their new values
+  changedAttributes = (): Partial<T> => {
+    const changed: Partial<T> = {};
+    const changes = diff(this.synced, this.data);
+    for (const key in changes) {
+      changed[key] = this.data[key];
+    }
+    return changed;
+  };
+
+  previous = <K extends keyof T>(key: K): T[K] => {
+    return this.synced[key];
+  };
+
+  // go back to the last synced data, returns what was undone
+  revert = (): ChangeSet<T> => {
+    const changes = diff(this.data, this.synced);
+    for (const key of Object.keys(this.data) as (keyof T)[]) {
+      delete this.data[key];
+    }
+    Object.assign(this.data, this.synced);
+    this.history?.record(changes);
+    return changes;
+  };
 }
 
+const diff = <T extends object>(from: T, to: T): ChangeSet<T> => {
+  const changes: ChangeSet<T> = {};
+  const keys = new Set([...Object.keys(from), ...Object.keys(to)]);
+  for (const key of keys as Set<keyof T>) {
+    if (from[key] !== to[key]) {
+      changes[key] = { previous: from[key], current: to[key] };
+    }
+  }
+  return changes;
+};
+
 // const attrs = new Attributes<UserProps>({ id: "5", name: "abc", age: 123 });
 
 // const id = attrs.get("id");
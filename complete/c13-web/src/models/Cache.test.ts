@@ -0,0 +1,138 @@
+import { beforeEach, describe, expect, test } from "vitest";
+import { CachedSync } from "./Cache";
+import { MemorySync } from "./MemorySync";
+import { ConflictError } from "./Sync";
+import { User, type UserProps } from "./User";
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+let now: number;
+let remote: MemorySync<UserProps>;
+let sync: CachedSync<UserProps>;
+let events: string[];
+
+beforeEach(() => {
+  now = 0;
+  remote = new MemorySync<UserProps>([{ id: "1", name: "a", version: 1 }]);
+  sync = new CachedSync(remote, {
+    ttl: 1000,
+    staleWhileRevalidate: 1000,
+    now: () => now,
+  });
+  events = [];
+  sync.on("*", ({ eventName }) => {
+    events.push(eventName);
+  });
+  User.identityMap.clear();
+});
+
+describe("CachedSync", () => {
+  test("serves a fresh record from the cache", async () => {
+    expect(await sync.fetch("1")).toEqual({ id: "1", name: "a", version: 1 });
+    remote.records[0].name = "b";
+    now = 1000;
+
+    expect(await sync.fetch("1")).toMatchObject({ name: "a" });
+    expect(events).toEqual(["miss", "hit"]);
+  });
+
+  test("serves a stale record while it is revalidated", async () => {
+    await sync.fetch("1");
+    remote.records[0].name = "b";
+    now = 1500;
+
+    expect(await sync.fetch("1")).toMatchObject({ name: "a" });
+    await flush();
+    expect(await sync.fetch("1")).toMatchObject({ name: "b" });
+    expect(events).toEqual(["miss", "stale", "revalidated", "hit"]);
+  });
+
+  test("loads an expired record again", async () => {
+    await sync.fetch("1");
+    remote.records[0].name = "b";
+    now = 2001;
+
+    expect(await sync.fetch("1")).toMatchObject({ name: "b" });
+    expect(events).toEqual(["miss", "miss"]);
+  });
+
+  test("shares concurrent loads and forgets invalidated records", async () => {
+    await Promise.all([sync.fetch("1"), sync.fetch("1")]);
+    sync.invalidate("1");
+    await sync.fetch("1");
+
+    expect(events).toEqual(["miss", "miss", "invalidate", "miss"]);
+  });
+
+  test("keeps the server copy of a write", async () => {
+    await sync.patch("1", { name: "b" });
+
+    expect(await sync.fetch("1")).toMatchObject({ name: "b", version: 2 });
+    expect(events).toEqual(["hit"]);
+  });
+
+  test("a load that was invalidated while it ran is not stored", async () => {
+    const loading = sync.fetch("1");
+    sync.invalidate("1");
+    remote.records[0].name = "b";
+    await loading;
+
+    expect(await sync.fetch("1")).toMatchObject({ name: "b" });
+  });
+
+  test("a conflict drops the cached record", async () => {
+    await sync.fetch("1");
+    remote.records[0] = { id: "1", name: "b", version: 2 };
+
+    await expect(
+      sync.patch("1", { name: "c" }, { expectedVersion: 1 }),
+    ).rejects.toThrow(ConflictError);
+    expect(await sync.fetch("1")).toMatchObject({ name: "b", version: 2 });
+    expect(events).toEqual(["miss", "invalidate", "miss"]);
+  });
+});
+
+describe("identity map", () => {
+  test("one live instance per id", async () => {
+    const user = User.instance({ id: "1" }, { sync });
+    user.fetch();
+    await flush();
+
+    const again = User.instance({ id: "1" }, { sync });
+    again.fetch();
+    await flush();
+
+    expect(again).toBe(user);
+    expect(user.get("name")).toBe("a");
+    expect(events).toEqual(["miss", "hit"]);
+  });
+
+  test("collections share the instances", async () => {
+    const user = User.instance({ id: "1" }, { sync });
+    const users = User.buildUserCollection(sync);
+    remote.records[0].name = "b";
+    remote.records[0].version = 2;
+
+    users.fetch();
+    await flush();
+
+    expect(users.models[0]).toBe(user);
+    expect(user.get("name")).toBe("b");
+    expect(user.isDirty()).toBe(false);
+  });
+
+  test("a model takes the revalidated copy", async () => {
+    const user = User.instance({ id: "1" }, { sync });
+    user.fetch();
+    await flush();
+    remote.records[0] = { id: "1", name: "b", version: 2 };
+    now = 1500;
+
+    user.fetch();
+    await flush();
+
+    expect(events).toEqual(["miss", "stale", "revalidated"]);
+    expect(user.get("name")).toBe("b");
+    expect(user.get("version")).toBe(2);
+  });
+});
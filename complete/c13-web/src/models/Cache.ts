@@ -0,0 +1,198 @@
+import { Eventing } from "./Eventing";
+import type { Page, QuerySpec } from "./Query";
+import {
+  ConflictError,
+  type HasId,
+  type RequestOptions,
+  type Sync,
+} from "./Sync";
+
+export interface CacheOptions {
+  // ms a value is fresh
+  ttl?: number;
+  // ms after the ttl a stale value is still served while it is loaded again in the background
+  staleWhileRevalidate?: number;
+  // the clock, for tests
+  now?: () => number;
+}
+
+// hit - a fresh value, stale - an old value served while it is revalidated, miss - loaded
+// revalidated - the background load of a stale value finished
+export type CacheEvents<V> = {
+  hit: { key: string; value: V };
+  stale: { key: string; value: V };
+  miss: { key: string };
+  revalidated: { key: string; value: V };
+  invalidate: { key?: string };
+};
+
+interface Entry<V> {
+  value: V;
+  storedAt: number;
+}
+
+// values by key with a ttl and stale-while-revalidate, concurrent loads of a key are shared
+export class Cache<V> {
+  events: Eventing<CacheEvents<V>> = new Eventing<CacheEvents<V>>();
+  private entries = new Map<string, Entry<V>>();
+  // the running load of a key, an invalidate or set drops it so its older value is not stored
+  private loading = new Map<string, Promise<V>>();
+
+  constructor(public options: CacheOptions = {}) {}
+
+  get on() {
+    return this.events.on;
+  }
+
+  private get now(): number {
+    return (this.options.now ?? Date.now)();
+  }
+
+  get = (key: string, load: () => Promise<V>): Promise<V> => {
+    const entry = this.entries.get(key);
+    const ttl = this.options.ttl ?? 30000;
+    const age = entry ? this.now - entry.storedAt : Infinity;
+
+    if (entry && age <= ttl) {
+      this.events.trigger("hit", { key, value: entry.value });
+      return Promise.resolve(entry.value);
+    }
+    if (entry && age <= ttl + (this.options.staleWhileRevalidate ?? 0)) {
+      this.events.trigger("stale", { key, value: entry.value });
+      // a failed revalidation keeps the stale value until it expires
+      this.load(key, load)
+        .then((value) => this.events.trigger("revalidated", { key, value }))
+        .catch(() => undefined);
+      return Promise.resolve(entry.value);
+    }
+    this.events.trigger("miss", { key });
+    return this.load(key, load);
+  };
+
+  set = (key: string, value: V): void => {
+    this.loading.delete(key);
+    this.entries.set(key, { value, storedAt: this.now });
+  };
+
+  // one key, or every key
+  invalidate = (key?: string): void => {
+    if (key === undefined) {
+      this.entries.clear();
+      this.loading.clear();
+    } else {
+      this.entries.delete(key);
+      this.loading.delete(key);
+    }
+    this.events.trigger("invalidate", { key });
+  };
+
+  private load(key: string, load: () => Promise<V>): Promise<V> {
+    const running = this.loading.get(key);
+    if (running) {
+      return running;
+    }
+    const pending: Promise<V> = load()
+      .then((value) => {
+        if (this.loading.get(key) === pending) {
+          this.entries.set(key, { value, storedAt: this.now });
+        }
+        return value;
+      })
+      .finally(() => {
+        if (this.loading.get(key) === pending) {
+          this.loading.delete(key);
+        }
+      });
+    this.loading.set(key, pending);
+    return pending;
+  }
+}
+
+// wraps another adapter - fetch(id) is answered from the cache, keyed by id
+// lists go to the adapter and fill the cache, writes store the server copy
+// a write rejected with a conflict drops the record, the next fetch loads the server copy
+// a fetch with extra params (e.g. _embed) is not cached
+export class CachedSync<T extends HasId> implements Sync<T> {
+  cache: Cache<T>;
+
+  constructor(
+    public remote: Sync<T>,
+    options?: CacheOptions,
+  ) {
+    this.cache = new Cache<T>(options);
+  }
+
+  get on() {
+    return this.cache.on;
+  }
+
+  // one record, or all of them
+  invalidate = (id?: string): void => {
+    this.cache.invalidate(id);
+  };
+
+  fetch(id: string, options: RequestOptions = {}): Promise<T> {
+    if (options.params && Object.keys(options.params).length > 0) {
+      return this.remote.fetch(id, options);
+    }
+    return this.cache.get(id, () => this.remote.fetch(id, options));
+  }
+
+  async fetchAll(options?: RequestOptions): Promise<T[]> {
+    return this.store(await this.remote.fetchAll(options));
+  }
+
+  async fetchWhere(filter: Partial<T>, options?: RequestOptions): Promise<T[]> {
+    return this.store(await this.remote.fetchWhere(filter, options));
+  }
+
+  async fetchQuery(
+    query: QuerySpec<T>,
+    options?: RequestOptions,
+  ): Promise<Page<T>> {
+    const page = await this.remote.fetchQuery(query, options);
+    return { ...page, records: this.store(page.records) };
+  }
+
+  async save(data: T, options?: RequestOptions): Promise<T> {
+    const saved = await this.remote
+      .save(data, options)
+      .catch(this.onConflict(data.id));
+    return this.store([saved])[0];
+  }
+
+  async patch(
+    id: string,
+    changes: Partial<T>,
+    options?: RequestOptions,
+  ): Promise<T> {
+    const patched = await this.remote
+      .patch(id, changes, options)
+      .catch(this.onConflict(id));
+    return this.store([patched])[0];
+  }
+
+  async delete(id: string, options?: RequestOptions): Promise<void> {
+    await this.remote.delete(id, options);
+    this.cache.invalidate(id);
+  }
+
+  // the cached copy is older than the one on the server
+  private onConflict(id: string | undefined) {
+    return (error: unknown): never => {
+      if (error instanceof ConflictError && id !== undefined) {
+        this.cache.invalidate(id);
+      }
+      throw error;
+    };
+  }
+
+  private store(records: T[]): T[] {
+    for (const record of records) {
+      if (record.id) {
+        this.cache.set(record.id, record);
+      }
+    }
+    return records;
+  }
+}
@@ -0,0 +1,183 @@
+import { describe, expect, test } from "vitest";
+import {
+  type Codec,
+  type Codecs,
+  booleanCodec,
+  dateCodec,
+  enumCodec,
+  integerCodec,
+  numberCodec,
+  parse,
+  serialize,
+} from "./Codec";
+import { MemorySync } from "./MemorySync";
+import { buildModel } from "./Model";
+import { type FieldErrors, ValidationError } from "./Validation";
+import { User, type UserProps } from "./User";
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+interface EventProps {
+  id?: string;
+  at?: Date;
+  kind?: "talk" | "workshop";
+  online?: boolean;
+  seats?: number;
+  tags?: string[];
+}
+
+// a custom codec - "a,b" in json
+const tagsCodec: Codec<string[]> = {
+  parse: (json) => (Array.isArray(json) ? json : String(json).split(",")),
+  serialize: (value) => value.join(","),
+};
+
+const eventCodecs: Codecs<EventProps> = {
+  at: dateCodec,
+  kind: enumCodec(["talk", "workshop"] as const),
+  online: booleanCodec,
+  seats: integerCodec,
+  tags: tagsCodec,
+};
+
+describe("codecs", () => {
+  test("parses json into the props types", () => {
+    const { data, errors } = parse<EventProps>(eventCodecs, {
+      at: "2024-01-02T03:04:05.000Z",
+      kind: "talk",
+      online: "false",
+      seats: "12",
+      tags: "a,b",
+    } as unknown as EventProps);
+
+    expect(errors).toEqual({});
+    expect(data).toEqual({
+      at: new Date("2024-01-02T03:04:05.000Z"),
+      kind: "talk",
+      online: false,
+      seats: 12,
+      tags: ["a", "b"],
+    });
+  });
+
+  test("reports the fields that cannot be coerced", () => {
+    const { data, errors } = parse<EventProps>(eventCodecs, {
+      id: "1",
+      at: "soon",
+      kind: "party",
+      online: "yes",
+      seats: "1.5",
+    } as unknown as EventProps);
+
+    expect(data).toEqual({ id: "1" });
+    expect(errors).toEqual({
+      at: ["must be a date"],
+      kind: ["must be one of talk, workshop"],
+      online: ["must be true or false"],
+      seats: ["must be a whole number"],
+    });
+  });
+
+  test("serializes the props back to json", () => {
+    expect(
+      serialize(eventCodecs, {
+        at: new Date("2024-01-02T03:04:05.000Z"),
+        tags: ["a", "b"],
+        seats: undefined,
+      }),
+    ).toEqual({
+      at: "2024-01-02T03:04:05.000Z",
+      tags: "a,b",
+      seats: undefined,
+    });
+  });
+
+  test("treats empty values as missing", () => {
+    expect(numberCodec.parse(" 7 ")).toBe(7);
+    expect(
+      parse<UserProps>({ age: numberCodec }, { age: "" } as never),
+    ).toEqual({ data: { age: undefined }, errors: {} });
+  });
+});
+
+describe("model codecs", () => {
+  test("fetch parses the fields and reports the ones that cannot be coerced", async () => {
+    const sync = new MemorySync<UserProps>([
+      { id: "1", name: "a", age: "34" as never },
+      { id: "2", name: "b", age: "old" as never },
+    ]);
+    const invalid: FieldErrors<UserProps>[] = [];
+
+    const user = new User({ id: "1" }, { sync });
+    user.fetch();
+    await flush();
+    expect(user.get("age")).toBe(34);
+
+    const other = new User({ id: "2", age: 3 }, { sync });
+    other.on("invalid", (errors) => {
+      invalid.push(errors);
+    });
+    await expect(other.fetch()).rejects.toBeInstanceOf(ValidationError);
+    expect(other.get("name")).toBe("b");
+    expect(other.get("age")).toBe(3);
+    expect(invalid).toEqual([{ age: ["must be a number"] }]);
+  });
+
+  test("a list fetch reports the fields that cannot be coerced", async () => {
+    User.identityMap.clear();
+    const sync = new MemorySync<UserProps>([
+      { id: "1", name: "a", age: "34" as never },
+      { id: "2", name: "b", age: "old" as never },
+    ]);
+    const users = User.buildUserCollection(sync);
+    const invalid: FieldErrors<UserProps>[] = [];
+    users.on("change", (models) => {
+      models.forEach((user) =>
+        user.on("invalid", (errors) => {
+          invalid.push(errors);
+        }),
+      );
+    });
+
+    users.fetch();
+    await flush();
+
+    expect(users.models.map((user) => user.get("age"))).toEqual([34, "old"]);
+    expect(invalid).toEqual([{ age: ["must be a number"] }]);
+  });
+
+  test("save serializes the fields", async () => {
+    class Event extends buildModel<EventProps>({
+      url: "http://localhost:3000/events",
+      codecs: eventCodecs,
+    }) {}
+    const sync = new MemorySync<EventProps>();
+    const event = new Event(
+      { at: new Date("2024-01-02T03:04:05.000Z"), tags: ["a"] },
+      { sync },
+    );
+
+    event.save();
+    await flush();
+
+    expect(sync.records[0]).toMatchObject({
+      at: "2024-01-02T03:04:05.000Z",
+      tags: "a",
+    });
+    expect(event.get("at")).toEqual(new Date("2024-01-02T03:04:05.000Z"));
+  });
+
+  test("save refuses a value that could not be parsed", async () => {
+    const sync = new MemorySync<UserProps>();
+    const user = new User({ name: "a", age: "old" as never }, { sync });
+    const invalid: FieldErrors<UserProps>[] = [];
+    user.on("invalid", (errors) => {
+      invalid.push(errors);
+    });
+
+    await expect(user.save()).rejects.toEqual(
+      new ValidationError({ age: ["must be a number"] }, "user"),
+    );
+    expect(invalid).toEqual([{ age: ["must be a number"] }]);
+  });
+});
@@ -0,0 +1,130 @@
+import type { FieldErrors } from "./Validation";
+
+// converts one field between its json value and its props type
+// parse throws when the value cannot be coerced, the message becomes the field error
+// parse gets the typed value too (e.g. new User({ age: 1 })) and returns it as it is
+export interface Codec<V> {
+  parse: (json: unknown) => V;
+  serialize: (value: V) => unknown;
+}
+
+// TODO: mapped type - an optional codec for every property of T, typed by the property value
+export type Codecs<T> = { [K in keyof T]?: Codec<NonNullable<T[K]>> };
+
+export const numberCodec: Codec<number> = {
+  parse: (json) => {
+    const value =
+      typeof json === "string" && json.trim() !== "" ? Number(json) : json;
+    if (typeof value !== "number" || !Number.isFinite(value)) {
+      throw new TypeError("must be a number");
+    }
+    return value;
+  },
+  serialize: (value) => value,
+};
+
+export const integerCodec: Codec<number> = {
+  parse: (json) => {
+    const value = numberCodec.parse(json);
+    if (!Number.isInteger(value)) {
+      throw new TypeError("must be a whole number");
+    }
+    return value;
+  },
+  serialize: (value) => value,
+};
+
+// true/false, "true"/"false", 1/0 and "1"/"0"
+export const booleanCodec: Codec<boolean> = {
+  parse: (json) => {
+    switch (json) {
+      case true:
+      case "true":
+      case 1:
+      case "1":
+        return true;
+      case false:
+      case "false":
+      case 0:
+      case "0":
+        return false;
+      default:
+        throw new TypeError("must be true or false");
+    }
+  },
+  serialize: (value) => value,
+};
+
+// an ISO string in json
+export const dateCodec: Codec<Date> = {
+  parse: (json) => {
+    const value =
+      json instanceof Date
+        ? json
+        : typeof json === "string" || typeof json === "number"
+          ? new Date(json)
+          : undefined;
+    if (!value || Number.isNaN(value.getTime())) {
+      throw new TypeError("must be a date");
+    }
+    return value;
+  },
+  serialize: (value) => value.toISOString(),
+};
+
+// enumCodec(["admin", "guest"] as const)
+export const enumCodec = <V extends string>(
+  values: readonly V[],
+): Codec<V> => ({
+  parse: (json) => {
+    if (!values.includes(json as V)) {
+      throw new TypeError(`must be one of ${values.join(", ")}`);
+    }
+    return json as V;
+  },
+  serialize: (value) => value,
+});
+
+// null and "" count as a missing value, the schema decides whether it is required
+const isEmpty = (json: unknown): boolean => {
+  return json === undefined || json === null || json === "";
+};
+
+// the fields that could be parsed, and the errors of the ones that could not
+export const parse = <T extends object>(
+  codecs: Codecs<T>,
+  json: T,
+): { data: T; errors: FieldErrors<T> } => {
+  const data = { ...json };
+  const errors: FieldErrors<T> = {};
+  for (const key of Object.keys(codecs) as (keyof T)[]) {
+    const codec = codecs[key];
+    if (!codec || !(key in json)) {
+      continue;
+    }
+    if (isEmpty(json[key])) {
+      data[key] = undefined as T[keyof T];
+      continue;
+    }
+    try {
+      data[key] = codec.parse(json[key]);
+    } catch (error) {
+      delete data[key];
+      errors[key] = [error instanceof Error ? error.message : String(error)];
+    }
+  }
+  return { data, errors };
+};
+
+// the json of the fields - the result only has the shape of T, a Date is sent as a string
+export const serialize = <T extends object>(codecs: Codecs<T>, data: T): T => {
+  const json = { ...data } as { [key: string]: unknown };
+  for (const key of Object.keys(codecs) as (keyof T & string)[]) {
+    const value = data[key];
+    const codec = codecs[key];
+    if (codec && value !== undefined && value !== null) {
+      json[key] = codec.serialize(value as NonNullable<T[keyof T & string]>);
+    }
+  }
+  return json as T;
+};
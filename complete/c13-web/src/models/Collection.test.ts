@@ -0,0 +1,122 @@
+import { beforeEach, describe, expect, test } from "vitest";
+import { Collection } from "./Collection";
+import { MemorySync } from "./MemorySync";
+import { SyncError } from "./Sync";
+import { User, type UserProps } from "./User";
+
+let sync: MemorySync<UserProps>;
+let users: Collection<User, UserProps>;
+let changes: number;
+
+beforeEach(() => {
+  sync = new MemorySync<UserProps>([
+    { id: "1", name: "a" },
+    { id: "2", name: "b" },
+  ]);
+  users = new Collection<User, UserProps>(
+    sync,
+    (json) => new User(json, { sync }),
+  );
+  changes = 0;
+  users.on("change", () => {
+    changes++;
+  });
+});
+
+const fetched = () =>
+  new Promise((resolve) => {
+    const unsubscribe = users.on("change", () => {
+      unsubscribe();
+      resolve(users.models);
+    });
+    users.fetch();
+  });
+
+describe("Collection", () => {
+  test("add, find and remove", () => {
+    const a = new User({ id: "1", name: "a" });
+    const b = new User({ id: "2", name: "b" });
+
+    users.add(a);
+    users.add(b);
+    users.remove(a);
+    users.remove(a);
+
+    expect(users.models).toEqual([b]);
+    expect(users.find((user) => user.get("name") === "b")).toBe(b);
+    expect(changes).toBe(3);
+  });
+
+  test("forwards the events of its models until they are removed", () => {
+    const user = new User({ id: "1", name: "a" });
+    const saved: User[] = [];
+    const errors: SyncError[] = [];
+    users.on("save", (model) => {
+      saved.push(model);
+    });
+    users.on("error", (error) => {
+      errors.push(error);
+    });
+    users.add(user);
+
+    user.set({ name: "b" });
+    user.trigger("save", user.attributes.getAll());
+    user.trigger("error", new SyncError("failed"));
+    users.remove(user);
+    user.set({ name: "c" });
+
+    expect(changes).toBe(3);
+    expect(saved).toEqual([user]);
+    expect(errors).toHaveLength(1);
+  });
+
+  test("a copy that stays keeps forwarding", () => {
+    const user = new User({ id: "1", name: "a" });
+    users.add(user);
+    users.add(user);
+    users.remove(user);
+    changes = 0;
+
+    user.set({ name: "b" });
+
+    expect(users.models).toEqual([user]);
+    expect(changes).toBe(1);
+  });
+
+  test("unbind stops following every model", () => {
+    const user = new User({ id: "1", name: "a" });
+    users.add(user);
+    users.add(new User({ id: "2", name: "b" }));
+    changes = 0;
+
+    users.unbind();
+    user.set({ name: "b" });
+
+    expect(users.models).toEqual([]);
+    expect(user.events.events.change).toHaveLength(1);
+    expect(changes).toBe(0);
+  });
+
+  test("fetch replaces the models", async () => {
+    const old = new User({ id: "9", name: "z" });
+    users.add(old);
+
+    await fetched();
+    changes = 0;
+    old.set({ name: "y" });
+
+    expect(users.models.map((user) => user.get("name"))).toEqual(["a", "b"]);
+    expect(changes).toBe(0);
+  });
+
+  test("reports a failed fetch", async () => {
+    sync.fetchAll = () => Promise.reject(new Error("offline"));
+
+    const error = await new Promise<SyncError>((resolve) => {
+      users.on("error", resolve);
+      users.fetch();
+    });
+
+    expect(error).toBeInstanceOf(SyncError);
+  });
+});
@@ -0,0 +1,137 @@
+import {
+  Eventing,
+  type ModelEvents,
+  type Observable,
+  type Unsubscribe,
+} from "./Eventing";
+import { type RealtimeEvent, RealtimeSync } from "./Realtime";
+import {
+  type HasId,
+  type RequestOptions,
+  type Sync,
+  SyncError,
+  unwrap,
+} from "./Sync";
+
+// change - the current models, save - the model that was saved
+export type CollectionEvents<T> = {
+  change: T[];
+  save: T;
+  error: SyncError;
+};
+
+// T - the model type (User), K - the json shape coming from the server (UserProps)
+export class Collection<
+  T extends Observable<ModelEvents<K>> & { get(key: "id"): string | undefined },
+  K extends HasId,
+> {
+  models: T[] = [];
+  events: Eventing<CollectionEvents<T>> = new Eventing<CollectionEvents<T>>();
+  // the forwarding handlers of each model, one group per time it was added
+  // a removed copy drops one group, the copies that stay keep forwarding
+  private subscriptions = new Map<T, Unsubscribe[][]>();
+  // the realtime channels of the sync adapter, dropped by unbind()
+  private unbinds: Unsubscribe[] = [];
+
+  constructor(
+    public sync: Sync<K>,
+    public deserialize: (json: K) => T,
+  ) {
+    for (const adapter of unwrap(sync)) {
+      if (adapter instanceof RealtimeSync) {
+        this.unbinds.push(adapter.subscribeAll(this.applyRemote));
+      }
+    }
+  }
+
+  get on() {
+    return this.events.on;
+  }
+
+  get trigger() {
+    return this.events.trigger;
+  }
+
+  // retrieve all, then replace the current models
+  fetch = (options: RequestOptions = {}): void => {
+    this.sync
+      .fetchAll(options)
+      .then((data: K[]): void => {
+        for (const model of [...this.models]) {
+          this.detach(model);
+        }
+        data.forEach((value: K) => {
+          this.add(this.deserialize(value), false);
+        });
+        this.trigger("change", this.models);
+      })
+      .catch((error: unknown) => {
+        this.trigger(
+          "error",
+          new SyncError("Failed to fetch collection", error),
+        );
+      });
+  };
+
+  add = (model: T, notify: boolean = true): void => {
+    this.models.push(model);
+    this.subscriptions.set(model, [
+      ...(this.subscriptions.get(model) || []),
+      [
+        model.on("change", () => this.trigger("change", this.models)),
+        model.on("save", () => this.trigger("save", model)),
+        model.on("error", (error: SyncError) => this.trigger("error", error)),
+        model.on("destroy", () => this.remove(model)),
+      ],
+    ]);
+    if (notify) {
+      this.trigger("change", this.models);
+    }
+  };
+
+  remove = (model: T): void => {
+    if (!this.detach(model)) {
+      return;
+    }
+    this.trigger("change", this.models);
+  };
+
+  // stop following the models and the sync adapter, e.g. once the list is not shown any more
+  // the models stay usable
+  unbind = (): void => {
+    for (const model of [...this.models]) {
+      this.detach(model);
+    }
+    this.unbinds.forEach((unbind) => unbind());
+    this.unbinds = [];
+  };
+
+  // take the model out of the list and stop forwarding its events
+  private detach(model: T): boolean {
+    const index = this.models.indexOf(model);
+    if (index === -1) {
+      return false;
+    }
+    this.models.splice(index, 1);
+    const groups = this.subscriptions.get(model) || [];
+    groups.pop()?.forEach((unsubscribe) => unsubscribe());
+    if (groups.length === 0) {
+      this.subscriptions.delete(model);
+    }
+    return true;
+  }
+
+  // a model created or deleted by another client, an update is applied by the model itself
+  private applyRemote = (event: RealtimeEvent<K>): void => {
+    const model = this.models.find((model) => model.get("id") === event.id);
+    if (event.type === "created" && !model) {
+      this.add(this.deserialize(event.data));
+    } else if (event.type === "deleted" && model) {
+      this.remove(model);
+    }
+  };
+
+  find = (predicate: (model: T) => boolean): T | undefined => {
+    return this.models.find(predicate);
+  };
+}
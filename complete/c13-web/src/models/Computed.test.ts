@@ -0,0 +1,72 @@
+import { describe, expect, test } from "vitest";
+import type { ChangeSet } from "./Attributes";
+import { MemorySync } from "./MemorySync";
+import { buildModel } from "./Model";
+import { User, type UserComputed, type UserProps } from "./User";
+
+describe("computed attributes", () => {
+  test("are read through get", () => {
+    const user = new User({ name: "a", age: 17 });
+
+    expect(user.get("isAdult")).toBe(false);
+    expect(user.get("displayName")).toBe("a");
+    expect(new User().get("displayName")).toBe("anonymous");
+  });
+
+  test("are cached until a dependency changes", () => {
+    let computed = 0;
+    class Person extends buildModel<UserProps, { initial: string }>({
+      url: "",
+      computed: {
+        initial: {
+          deps: ["name"],
+          compute: ({ name }) => {
+            computed++;
+            return name?.[0] ?? "";
+          },
+        },
+      },
+    }) {}
+    const person = new Person({ name: "ann", age: 1 });
+
+    person.get("initial");
+    person.set({ age: 2 });
+    person.get("initial");
+    expect(computed).toBe(1);
+
+    person.set({ name: "bob" });
+    expect(person.get("initial")).toBe("b");
+  });
+
+  test("trigger computed when their value changes", () => {
+    const user = new User({ name: "a", age: 17 });
+    const changes: ChangeSet<UserComputed>[] = [];
+    user.on("computed", (computed) => {
+      changes.push(computed);
+    });
+
+    user.set({ age: 18 });
+    user.set({ age: 19 });
+    user.set({ name: "b" });
+
+    expect(changes).toEqual([
+      { isAdult: { previous: false, current: true } },
+      { displayName: { previous: "a", current: "b" } },
+    ]);
+  });
+
+  test("are never saved", async () => {
+    const sync = new MemorySync<UserProps>();
+    const user = new User({ name: "a", age: 20 }, { sync });
+    user.get("isAdult");
+
+    await user.save();
+
+    expect(Object.keys(sync.records[0]).sort()).toEqual([
+      "age",
+      "id",
+      "name",
+      "version",
+    ]);
+  });
+});
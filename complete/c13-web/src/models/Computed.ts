@@ -0,0 +1,65 @@
+import type { Attributes, ChangeSet } from "./Attributes";
+
+// a value derived from the fields in `deps`, e.g. { deps: ["age"], compute: ({ age }) => (age ?? 0) >= 18 }
+export interface Computed<T, V> {
+  deps: (keyof T)[];
+  compute: (data: T) => V;
+}
+
+// TODO: mapped type - one Computed per property of C, derived from the fields of T
+export type ComputedDefinitions<T, C> = { [K in keyof C]: Computed<T, C[K]> };
+
+// the values of C - computed on first read and cached until one of their deps changes
+// they are no fields of the data, so they are never validated or saved
+export class ComputedAttributes<T extends object, C> {
+  private cache: { [K in keyof C]?: { deps: unknown[]; value: C[K] } } = {};
+
+  constructor(
+    private attributes: Attributes<T>,
+    public definitions: ComputedDefinitions<T, C>,
+  ) {}
+
+  has = (key: PropertyKey): boolean => {
+    return Object.prototype.hasOwnProperty.call(this.definitions, key);
+  };
+
+  get = <K extends keyof C>(key: K): C[K] => {
+    return this.valueOf(key, this.attributes.getAll());
+  };
+
+  // the computed values that changed along with the fields, checked only when a dep changed
+  changes = (changes: ChangeSet<T>): ChangeSet<C> => {
+    const computed: ChangeSet<C> = {};
+    const previous = { ...this.attributes.getAll() };
+    for (const key in changes) {
+      const change = changes[key];
+      if (change) {
+        previous[key] = change.previous;
+      }
+    }
+    for (const key of Object.keys(this.definitions) as (keyof C)[]) {
+      if (!this.definitions[key].deps.some((dep) => dep in changes)) {
+        continue;
+      }
+      const before = this.valueOf(key, previous);
+      const after = this.get(key);
+      if (before !== after) {
+        computed[key] = { previous: before, current: after };
+      }
+    }
+    return computed;
+  };
+
+  // the cached value while the deps have the same values
+  private valueOf<K extends keyof C>(key: K, data: T): C[K] {
+    const { deps, compute } = this.definitions[key];
+    const values = deps.map((dep) => data[dep]);
+    const cached = this.cache[key];
+    if (cached && cached.deps.every((value, i) => value === values[i])) {
+      return cached.value;
+    }
+    const value = compute(data);
+    this.cache[key] = { deps: values, value };
+    return value;
+  }
+}
@@ -0,0 +1,103 @@
+import { describe, expect, test } from "vitest";
+import {
+  type Conflict,
+  lastWriteWins,
+  mergeFields,
+  serverWins,
+} from "./Conflict";
+import { MemorySync } from "./MemorySync";
+import { ConflictError } from "./Sync";
+import { User, type UserOptions, type UserProps } from "./User";
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+// two tabs load version 1, the other tab saves age 40 first
+const editedElsewhere = async (options: Omit<UserOptions, "sync"> = {}) => {
+  const sync = new MemorySync<UserProps>([
+    { id: "1", name: "a", age: 30, version: 1 },
+  ]);
+  const user = new User({ id: "1" }, { ...options, sync });
+  const other = new User({ id: "1" }, { sync });
+  user.fetch();
+  other.fetch();
+  await flush();
+
+  other.set({ age: 40 });
+  other.save();
+  await flush();
+  return { sync, user };
+};
+
+describe("save conflicts", () => {
+  test("triggers conflict with the local, remote and base data", async () => {
+    const { sync, user } = await editedElsewhere();
+    const conflicts: Conflict<UserProps>[] = [];
+    user.on("conflict", (conflict) => {
+      conflicts.push(conflict);
+    });
+
+    user.set({ name: "b" });
+    await expect(user.save()).rejects.toBeInstanceOf(ConflictError);
+
+    expect(conflicts).toEqual([
+      {
+        local: { id: "1", name: "b", age: 30, version: 1 },
+        remote: { id: "1", name: "a", age: 40, version: 2 },
+        base: { id: "1", name: "a", age: 30, version: 1 },
+      },
+    ]);
+    expect(sync.records[0]).toEqual({
+      id: "1",
+      name: "a",
+      age: 40,
+      version: 2,
+    });
+  });
+
+  test("last write wins", async () => {
+    const { sync, user } = await editedElsewhere({ conflict: lastWriteWins });
+
+    user.set({ name: "b" });
+    user.save();
+    await flush();
+
+    expect(sync.records[0]).toEqual({
+      id: "1",
+      name: "b",
+      age: 30,
+      version: 3,
+    });
+    expect(user.isDirty()).toBe(false);
+  });
+
+  test("server wins", async () => {
+    const { sync, user } = await editedElsewhere({ conflict: serverWins });
+
+    user.set({ name: "b" });
+    user.save();
+    await flush();
+
+    expect(sync.records[0]).toEqual({
+      id: "1",
+      name: "a",
+      age: 40,
+      version: 2,
+    });
+    expect(user.attributes.getAll()).toEqual(sync.records[0]);
+  });
+
+  test("merges the fields changed on each side", async () => {
+    const { sync, user } = await editedElsewhere({ conflict: mergeFields });
+
+    user.set({ name: "b" });
+    user.save();
+    await flush();
+
+    expect(sync.records[0]).toEqual({
+      id: "1",
+      name: "b",
+      age: 40,
+      version: 3,
+    });
+  });
+});
@@ -0,0 +1,35 @@
+// base - the data at the last fetch or save, the common ancestor of local and remote
+export interface Conflict<T> {
+  local: T;
+  remote: T;
+  base: T;
+}
+
+// the data to keep - the model saves it again when it differs from remote
+export type ConflictStrategy<T> = (conflict: Conflict<T>) => T;
+
+// overwrite the server copy with the local data
+export const lastWriteWins = <T>({ local }: Conflict<T>): T => {
+  return { ...local };
+};
+
+// drop the local changes
+export const serverWins = <T>({ remote }: Conflict<T>): T => {
+  return { ...remote };
+};
+
+// keep the fields changed locally, take the rest from the server
+// a field changed on both sides keeps the local value
+export const mergeFields = <T extends object>({
+  local,
+  remote,
+  base,
+}: Conflict<T>): T => {
+  const merged: T = { ...remote };
+  for (const key of Object.keys(local) as (keyof T)[]) {
+    if (local[key] !== base[key]) {
+      merged[key] = local[key];
+    }
+  }
+  return merged;
+};
@@ -0,0 +1,111 @@
+import { afterEach, describe, expect, test, vi } from "vitest";
+import { Eventing } from "./Eventing";
+
+type TestEvents = { a: number; b: number };
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe("Eventing", () => {
+  test("on, unsubscribe and off", () => {
+    const events = new Eventing<TestEvents>();
+    const calls: number[] = [];
+    const handler = (value: number) => {
+      calls.push(value);
+    };
+    const unsubscribe = events.on("a", handler);
+
+    events.trigger("a", 1);
+    unsubscribe();
+    events.trigger("a", 2);
+    events.on("a", handler);
+    events.off("a", handler);
+    events.trigger("a", 3);
+
+    expect(calls).toEqual([1]);
+  });
+
+  test("once is called once", () => {
+    const events = new Eventing<TestEvents>();
+    const calls: number[] = [];
+    events.once("a", (value) => {
+      calls.push(value);
+    });
+
+    events.trigger("a", 1);
+    events.trigger("a", 2);
+
+    expect(calls).toEqual([1]);
+  });
+
+  test("once on one event keeps the on handler of another", () => {
+    const events = new Eventing<TestEvents>();
+    const calls: string[] = [];
+    const handler = (value: number) => {
+      calls.push(`${value}`);
+    };
+    events.on("b", handler);
+    events.once("a", handler);
+
+    events.trigger("b", 1);
+    events.trigger("b", 2);
+    events.trigger("a", 3);
+    events.trigger("a", 4);
+
+    expect(calls).toEqual(["1", "2", "3"]);
+  });
+
+  test("the wildcard receives every event", () => {
+    const events = new Eventing<TestEvents>();
+    const calls: unknown[] = [];
+    events.on("*", (event) => {
+      calls.push(event);
+    });
+
+    events.trigger("a", 1);
+    events.trigger("b", 2);
+
+    expect(calls).toEqual([
+      { eventName: "a", payload: 1 },
+      { eventName: "b", payload: 2 },
+    ]);
+  });
+
+  test("a throwing handler is reported, the others still run", () => {
+    const error = vi.spyOn(console, "error").mockImplementation(() => {});
+    const events = new Eventing<TestEvents>();
+    const calls: number[] = [];
+    events.on("a", () => {
+      throw new Error("failed");
+    });
+    events.on("a", (value) => {
+      calls.push(value);
+    });
+
+    events.trigger("a", 1);
+
+    expect(calls).toEqual([1]);
+    expect(error).toHaveBeenCalledTimes(1);
+  });
+
+  test("emitAsync awaits the handlers in order", async () => {
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    const events = new Eventing<TestEvents>();
+    const calls: string[] = [];
+    events.on("a", async () => {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      calls.push("slow");
+    });
+    events.on("a", async () => {
+      throw new Error("failed");
+    });
+    events.on("a", () => {
+      calls.push("fast");
+    });
+
+    await events.emitAsync("a", 1);
+
+    expect(calls).toEqual(["slow", "fast"]);
+  });
+});
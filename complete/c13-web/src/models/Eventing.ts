@@ -1,22 +1,145 @@
-export type Callback = () => void;
+import type { ChangeSet } from "./Attributes";
+import type { Conflict } from "./Conflict";
+import type { SyncError } from "./Sync";
+import type { FieldErrors } from "./Validation";
 
-export class Eventing {
-  // TODO: typescript index signature  - define an object type with unknown property names but known value type , [key:string]  mean any key of this type
-  events: { [key: string]: Callback[] } = {};
+// event name => payload type, use `void` for events without payload
+export type EventMap = { [eventName: string]: unknown };
 
-  on = (eventName: string, callback: Callback): void => {
+// handlers may be async, `emitAsync` awaits them
+export type Callback<P = void> = (payload: P) => void | Promise<void>;
+
+export type Unsubscribe = () => void;
+
+// how a handler is called, dispatchList pairs it with the payload of its event
+type CalledCallback = (payload: unknown) => void | Promise<void>;
+
+// TODO: distributive mapped type - a union of { eventName, payload } pairs, one per event of E
+export type AnyEvent<E extends EventMap> = {
+  [K in keyof E]: { eventName: K; payload: E[K] };
+}[keyof E];
+
+// the "*" wildcard listener receives every event of E
+export type WithWildcard<E extends EventMap> = E & { "*": AnyEvent<E> };
+
+// the events every model triggers, C - its computed attributes
+export type ModelEvents<T, C = {}> = {
+  change: ChangeSet<T>;
+  // the computed attributes that changed along with a `change`
+  computed: ChangeSet<C>;
+  save: T;
+  error: SyncError;
+  invalid: FieldErrors<T>;
+  conflict: Conflict<T>;
+  // the save went into the offline outbox, `save` follows once it reached the server
+  pending: T;
+  // the record was deleted - by destroy(), or by another client
+  destroy: T;
+};
+
+// anything that can be observed - User satisfies this through its `on` getter
+export interface Observable<E extends EventMap> {
+  on<K extends keyof E>(eventName: K, callback: Callback<E[K]>): Unsubscribe;
+}
+
+export class Eventing<E extends EventMap> {
+  // TODO: mapped type - one optional handler list per event name of E
+  events: { [K in keyof WithWildcard<E>]?: Callback<WithWildcard<E>[K]>[] } =
+    {};
+
+  // handlers registered through `once`, per event name - removed on their first call
+  // the same function can be an `on` handler of another event
+  private onceHandlers: {
+    [K in keyof WithWildcard<E>]?: Set<Callback<WithWildcard<E>[K]>>;
+  } = {};
+
+  on = <K extends keyof WithWildcard<E>>(
+    eventName: K,
+    callback: Callback<WithWildcard<E>[K]>,
+  ): Unsubscribe => {
     const handlers = this.events[eventName] || []; // if undefined, then fallback to []
     handlers.push(callback);
     this.events[eventName] = handlers;
+    return () => this.off(eventName, callback);
   };
 
-  trigger = (eventName: string): void => {
+  once = <K extends keyof WithWildcard<E>>(
+    eventName: K,
+    callback: Callback<WithWildcard<E>[K]>,
+  ): Unsubscribe => {
+    const onceHandlers = this.onceHandlers[eventName] || new Set();
+    onceHandlers.add(callback);
+    this.onceHandlers[eventName] = onceHandlers;
+    return this.on(eventName, callback);
+  };
+
+  off = <K extends keyof WithWildcard<E>>(
+    eventName: K,
+    callback: Callback<WithWildcard<E>[K]>,
+  ): void => {
     const handlers = this.events[eventName];
-    if (!handlers || handlers.length === 0) {
+    if (!handlers) {
       return;
     }
-    for (const handler of handlers) {
-      handler();
+    const index = handlers.indexOf(callback);
+    if (index !== -1) {
+      handlers.splice(index, 1);
+    }
+    this.onceHandlers[eventName]?.delete(callback);
+  };
+
+  // TODO: a trailing parameter of type void can be omitted - trigger("ping") for `ping: void`
+  // a throwing handler is reported and the other handlers still run
+  trigger = <K extends keyof E>(eventName: K, payload: E[K]): void => {
+    for (const [handler, arg] of this.dispatchList(eventName, payload)) {
+      try {
+        const result = handler(arg);
+        if (result instanceof Promise) {
+          result.catch((error: unknown) => this.report(eventName, error));
+        }
+      } catch (error) {
+        this.report(eventName, error);
+      }
+    }
+  };
+
+  // same as trigger, but awaits promise-returning handlers one after another
+  emitAsync = async <K extends keyof E>(
+    eventName: K,
+    payload: E[K],
+  ): Promise<void> => {
+    for (const [handler, arg] of this.dispatchList(eventName, payload)) {
+      try {
+        await handler(arg);
+      } catch (error) {
+        this.report(eventName, error);
+      }
     }
   };
+
+  // snapshot of the handlers to call - the named ones, then the "*" ones
+  private dispatchList<K extends keyof E>(
+    eventName: K,
+    payload: E[K],
+  ): [CalledCallback, unknown][] {
+    const list: [CalledCallback, unknown][] = [];
+    const collect = <N extends keyof WithWildcard<E>>(
+      name: N,
+      arg: unknown,
+    ): void => {
+      for (const handler of [...(this.events[name] || [])]) {
+        if (this.onceHandlers[name]?.has(handler)) {
+          this.off(name, handler);
+        }
+        list.push([handler as CalledCallback, arg]);
+      }
+    };
+    collect(eventName, payload);
+    collect("*", { eventName, payload });
+    return list;
+  }
+
+  private report(eventName: keyof E, error: unknown): void {
+    console.error(`handler for "${String(eventName)}" failed:`, error);
+  }
 }
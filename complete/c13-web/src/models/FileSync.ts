@@ -0,0 +1,135 @@
+import { readFile, rename, writeFile } from "fs/promises";
+import { resolve } from "path";
+import {
+  type HasId,
+  type RequestOptions,
+  type Sync,
+  matches,
+  nextVersion,
+} from "./Sync";
+import { applyChanges } from "./Patch";
+import { type Page, type QuerySpec, evaluate } from "./Query";
+
+// the shape of db.json - resource name => records
+type Database = { [resource: string]: unknown[] };
+
+// the last write of every file, the next one waits for it - the adapters of all resources share it
+const writes = new Map<string, Promise<unknown>>();
+// makes the temp file of every write unique
+let writeCount = 0;
+
+// reads and writes a db.json shaped file directly, node only
+export class FileSync<T extends HasId> implements Sync<T> {
+  constructor(
+    public filePath: string,
+    public resource: string = "users",
+  ) {}
+
+  async fetch(id: string): Promise<T> {
+    const record = (await this.fetchAll()).find((record) => record.id === id);
+    if (!record) {
+      throw new Error(`Record ${id} not found`);
+    }
+    return record;
+  }
+
+  async fetchAll(): Promise<T[]> {
+    const db = await this.read();
+    return (db[this.resource] || []) as T[];
+  }
+
+  async fetchWhere(filter: Partial<T>): Promise<T[]> {
+    return (await this.fetchAll()).filter((record) => matches(record, filter));
+  }
+
+  async fetchQuery(query: QuerySpec<T>): Promise<Page<T>> {
+    return evaluate(await this.fetchAll(), query);
+  }
+
+  save(data: T, options: RequestOptions = {}): Promise<T> {
+    return this.update((records) => {
+      const index = records.findIndex((item) => item.id === data.id);
+      const record = nextVersion(data, records[index], options, records);
+      if (index === -1) {
+        records.push(record);
+      } else {
+        records[index] = record;
+      }
+      return record;
+    });
+  }
+
+  patch(
+    id: string,
+    changes: Partial<T>,
+    options: RequestOptions = {},
+  ): Promise<T> {
+    return this.update((records) => {
+      const index = records.findIndex((item) => item.id === id);
+      if (index === -1) {
+        throw new Error(`Record ${id} not found`);
+      }
+      const remote = records[index];
+      const record = nextVersion(
+        applyChanges(remote, changes),
+        remote,
+        options,
+      );
+      records[index] = record;
+      return record;
+    });
+  }
+
+  delete(id: string): Promise<void> {
+    return this.update((records) => {
+      const index = records.findIndex((item) => item.id === id);
+      if (index === -1) {
+        throw new Error(`Record ${id} not found`);
+      }
+      records.splice(index, 1);
+    });
+  }
+
+  // read, change the records, write - one after another per file, so no write is lost
+  private update<R>(change: (records: T[]) => R): Promise<R> {
+    const path = resolve(this.filePath);
+    const run = async (): Promise<R> => {
+      const db = await this.read();
+      const records = (db[this.resource] || []) as T[];
+      const result = change(records);
+      db[this.resource] = records;
+      await this.write(db);
+      return result;
+    };
+    const previous = writes.get(path) || Promise.resolve();
+    const next = previous.then(run, run);
+    const settled = next.catch(() => undefined);
+    writes.set(path, settled);
+    // forget the file once its last write is done
+    settled.then(() => {
+      if (writes.get(path) === settled) {
+        writes.delete(path);
+      }
+    });
+    return next;
+  }
+
+  private async read(): Promise<Database> {
+    try {
+      return JSON.parse(await readFile(this.filePath, "utf-8")) as Database;
+    } catch (error) {
+      // a missing file is an empty database
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+        return {};
+      }
+      throw error;
+    }
+  }
+
+  // write to a temp file then rename, so a crash never leaves half a file
+  private async write(db: Database): Promise<void> {
+    const tempPath = `${this.filePath}.${process.pid}.${++writeCount}.tmp`;
+    await writeFile(tempPath, JSON.stringify(db, null, 2));
+    await rename(tempPath, this.filePath);
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, expect, test } from "vitest";
+import { History } from "./History";
+import { User, type UserProps } from "./User";
+
+const change = (previous: number, current: number) => ({
+  age: { previous, current },
+});
+
+describe("History", () => {
+  test("undo and redo move the steps between the stacks", () => {
+    const history = new History<UserProps>();
+    history.record(change(1, 2));
+
+    expect(history.undo()).toEqual(change(1, 2));
+    expect(history.canUndo).toBe(false);
+    expect(history.redo()).toEqual(change(1, 2));
+    expect(history.canRedo).toBe(false);
+  });
+
+  test("keeps at most maxDepth steps", () => {
+    const history = new History<UserProps>(2);
+    history.record(change(1, 2));
+    history.record(change(2, 3));
+    history.record(change(3, 4));
+
+    expect(history.undo()).toEqual(change(3, 4));
+    expect(history.undo()).toEqual(change(2, 3));
+    expect(history.undo()).toBeUndefined();
+  });
+
+  test("a new step clears redo", () => {
+    const history = new History<UserProps>();
+    history.record(change(1, 2));
+    history.undo();
+
+    history.record(change(1, 5));
+
+    expect(history.canRedo).toBe(false);
+  });
+
+  test("nested transactions become one step", () => {
+    const history = new History<UserProps>();
+
+    history.transaction(() => {
+      history.record(change(1, 2));
+      history.transaction(() => {
+        history.record(change(2, 3));
+        history.record({ name: { previous: "a", current: "b" } });
+      });
+    });
+
+    expect(history.undo()).toEqual({
+      age: { previous: 1, current: 3 },
+      name: { previous: "a", current: "b" },
+    });
+    expect(history.canUndo).toBe(false);
+  });
+
+  test("a transaction that ends where it started records nothing", () => {
+    const history = new History<UserProps>();
+
+    history.transaction(() => {
+      history.record(change(1, 2));
+      history.record(change(2, 1));
+    });
+
+    expect(history.canUndo).toBe(false);
+  });
+});
+
+describe("model undo/redo", () => {
+  test("restores the fields and triggers change", () => {
+    const user = new User({ name: "a", age: 1 }, { history: {} });
+    const changes: unknown[] = [];
+    user.on("change", (changeSet) => {
+      changes.push(changeSet);
+    });
+
+    user.set({ age: 2 });
+    user.undo();
+    user.redo();
+
+    expect(user.get("age")).toBe(2);
+    expect(changes).toEqual([change(1, 2), change(2, 1), change(1, 2)]);
+  });
+});
@@ -0,0 +1,98 @@
+import type { ChangeSet } from "./Attributes";
+
+// undo/redo stacks of the changes made by `set`, one entry per undo step
+export class History<T extends object> {
+  private undoStack: ChangeSet<T>[] = [];
+  private redoStack: ChangeSet<T>[] = [];
+  // the step that collects the changes while a transaction is open
+  private pending?: ChangeSet<T>;
+  private depth = 0;
+
+  constructor(public maxDepth: number = 50) {}
+
+  get canUndo(): boolean {
+    return this.undoStack.length > 0;
+  }
+
+  get canRedo(): boolean {
+    return this.redoStack.length > 0;
+  }
+
+  record = (changes: ChangeSet<T>): void => {
+    if (Object.keys(changes).length === 0) {
+      return;
+    }
+    if (this.pending) {
+      this.pending = merge(this.pending, changes);
+      return;
+    }
+    this.push(changes);
+  };
+
+  // the step to take back - the caller restores the `previous` values
+  undo = (): ChangeSet<T> | undefined => {
+    const changes = this.undoStack.pop();
+    if (changes) {
+      this.redoStack.push(changes);
+    }
+    return changes;
+  };
+
+  // the step to apply again - the caller restores the `current` values
+  redo = (): ChangeSet<T> | undefined => {
+    const changes = this.redoStack.pop();
+    if (changes) {
+      this.undoStack.push(changes);
+    }
+    return changes;
+  };
+
+  // every change recorded inside `callback` becomes one undo step, transactions can be nested
+  transaction = (callback: () => void): void => {
+    if (this.depth === 0) {
+      this.pending = {};
+    }
+    this.depth++;
+    try {
+      callback();
+    } finally {
+      this.depth--;
+      if (this.depth === 0) {
+        const changes = this.pending || {};
+        this.pending = undefined;
+        this.record(changes);
+      }
+    }
+  };
+
+  clear = (): void => {
+    this.undoStack = [];
+    this.redoStack = [];
+  };
+
+  private push(changes: ChangeSet<T>): void {
+    this.undoStack.push(changes);
+    this.redoStack = [];
+    if (this.undoStack.length > this.maxDepth) {
+      this.undoStack.splice(0, this.undoStack.length - this.maxDepth);
+    }
+  }
+}
+
+// keep the first `previous` and the last `current` of every field
+const merge = <T>(first: ChangeSet<T>, next: ChangeSet<T>): ChangeSet<T> => {
+  const merged: ChangeSet<T> = { ...first };
+  for (const key in next) {
+    const change = next[key];
+    if (!change) {
+      continue;
+    }
+    const previous = merged[key] ? merged[key].previous : change.previous;
+    if (previous === change.current) {
+      delete merged[key];
+    } else {
+      merged[key] = { previous, current: change.current };
+    }
+  }
+  return merged;
+};
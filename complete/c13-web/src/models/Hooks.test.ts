@@ -0,0 +1,162 @@
+import { afterEach, describe, expect, test } from "vitest";
+import { VetoError, hooks } from "./Hooks";
+import { MemorySync } from "./MemorySync";
+import { OfflineSync } from "./OfflineSync";
+import { SyncError } from "./Sync";
+import type { Unsubscribe } from "./Eventing";
+import { User, type UserProps } from "./User";
+
+const users = () =>
+  new MemorySync<UserProps>([{ id: "1", name: "a", age: 30, version: 1 }]);
+
+let unsubscribes: Unsubscribe[] = [];
+
+afterEach(() => {
+  unsubscribes.forEach((unsubscribe) => unsubscribe());
+  unsubscribes = [];
+  User.identityMap.clear();
+});
+
+describe("lifecycle hooks", () => {
+  test("beforeSet transforms the update or vetoes it", () => {
+    unsubscribes.push(
+      User.hooks.on("beforeSet", (update) =>
+        update.name === "root"
+          ? false
+          : { ...update, name: update.name?.trim() },
+      ),
+    );
+    const user = new User({ name: "a" });
+
+    user.set({ name: " b " });
+    user.set({ name: "root" });
+
+    expect(user.get("name")).toBe("b");
+  });
+
+  test("a beforeSet hook that returns a promise throws", () => {
+    unsubscribes.push(
+      User.hooks.on("beforeSet", (async () => false) as () => void),
+    );
+    const user = new User({ name: "a" });
+
+    expect(() => user.set({ name: "b" })).toThrow(TypeError);
+    expect(user.get("name")).toBe("a");
+  });
+
+  test("afterSet receives the changes", () => {
+    const changes: unknown[] = [];
+    unsubscribes.push(
+      User.hooks.on("afterSet", (changeSet) => {
+        changes.push(changeSet);
+      }),
+    );
+
+    new User({ name: "a" }).set({ name: "b" });
+
+    expect(changes).toEqual([{ name: { previous: "a", current: "b" } }]);
+  });
+
+  test("global hooks run before the hooks of the class", async () => {
+    const sync = users();
+    unsubscribes.push(
+      hooks.on("beforeSave", async (data) => ({ ...data, updatedAt: "now" })),
+      User.hooks.on("beforeSave", ({ age, ...data }) => data),
+    );
+    const user = new User({ id: "1", version: 1 }, { sync });
+    await user.fetch();
+
+    user.set({ name: "b" });
+    await user.save();
+
+    expect(sync.records[0]).toEqual({
+      id: "1",
+      name: "b",
+      age: 30,
+      version: 2,
+      updatedAt: "now",
+    });
+    expect(user.get("age")).toBe(30);
+  });
+
+  test("a vetoed save rejects and sends nothing", async () => {
+    const sync = users();
+    unsubscribes.push(User.hooks.on("beforeSave", async () => false as const));
+    const user = new User({ name: "b" }, { sync });
+
+    await expect(user.save()).rejects.toBeInstanceOf(VetoError);
+    expect(sync.records).toHaveLength(1);
+  });
+
+  test("fetch hooks change the options and the server data", async () => {
+    const sync = users();
+    unsubscribes.push(
+      User.hooks.on("beforeFetch", (options) => ({ ...options, timeout: 10 })),
+      User.hooks.on("afterFetch", ({ age, ...data }) => data),
+    );
+    const user = new User({ id: "1" }, { sync });
+
+    await user.fetch();
+
+    expect(user.attributes.getAll()).toEqual({
+      id: "1",
+      name: "a",
+      version: 1,
+    });
+  });
+
+  test("afterSave and beforeDestroy", async () => {
+    const sync = users();
+    const audit: string[] = [];
+    unsubscribes.push(
+      User.hooks.on("afterSave", async (data) => {
+        audit.push(`saved ${data.id}`);
+      }),
+      User.hooks.on("beforeDestroy", (data) => data.name !== "a" && undefined),
+    );
+    const user = new User({ id: "1", name: "a", version: 1 }, { sync });
+
+    await user.save();
+    await expect(user.destroy()).rejects.toBeInstanceOf(VetoError);
+
+    expect(audit).toEqual(["saved 1"]);
+    expect(sync.records).toHaveLength(1);
+  });
+
+  test("the fields a beforeSave hook adds are saved and kept", async () => {
+    const sync = users();
+    unsubscribes.push(
+      hooks.on("beforeSave", (data) => ({ ...data, updatedAt: "now" })),
+    );
+    const user = new User({ id: "1" }, { sync });
+    await user.fetch();
+
+    user.set({ name: "b" });
+    await user.save();
+
+    expect(user.attributes.getAll()).toMatchObject({ updatedAt: "now" });
+    expect(user.isDirty()).toBe(false);
+  });
+
+  test("afterSave of a queued save runs once it is replayed", async () => {
+    const remote = users();
+    const save = remote.save.bind(remote);
+    remote.save = () =>
+      Promise.reject(new SyncError("unreachable", undefined, "network"));
+    const sync = new OfflineSync<UserProps>(remote);
+    const saved: string[] = [];
+    unsubscribes.push(
+      User.hooks.on("afterSave", (data) => {
+        saved.push(data.name ?? "");
+      }),
+    );
+    const user = new User({ name: "b" }, { sync });
+
+    await user.save();
+    expect(saved).toEqual([]);
+
+    remote.save = save;
+    await sync.replay();
+    expect(saved).toEqual(["b"]);
+  });
+});
@@ -0,0 +1,130 @@
+import type { ChangeSet } from "./Attributes";
+import type { Unsubscribe } from "./Eventing";
+import type { FetchOptions, Model } from "./Model";
+import type { HasId } from "./Sync";
+
+export type Awaitable<R> = R | Promise<R>;
+
+// hook name => hook - a before hook returns the data to go on with, nothing to keep it, or `false` to veto
+// set is synchronous, so beforeSet is too - afterSet may be async, its failure is only reported
+export interface HookFunctions<T extends HasId> {
+  beforeSet: (update: T, model: Model<T>) => T | false | void;
+  afterSet: (changes: ChangeSet<T>, model: Model<T>) => void;
+  // the whole data, a patch sends the changed fields of what is returned
+  beforeSave: (data: T, model: Model<T>) => Awaitable<T | false | void>;
+  afterSave: (data: T, model: Model<T>) => Awaitable<void>;
+  beforeFetch: (
+    options: FetchOptions,
+    model: Model<T>,
+  ) => Awaitable<FetchOptions | false | void>;
+  // the server data, before it is set
+  afterFetch: (data: T, model: Model<T>) => Awaitable<T | false | void>;
+  beforeDestroy: (data: T, model: Model<T>) => Awaitable<false | void>;
+}
+
+export type HookName = keyof HookFunctions<HasId>;
+
+// the data a hook receives
+export type HookData<T extends HasId, K extends HookName> = Parameters<
+  HookFunctions<T>[K]
+>[0];
+
+// the props of the global hooks, they run for every model class
+type AnyProps = HasId & { [key: string]: unknown };
+
+// a hook of any name - every hook function is one, `on` checks the types
+type StoredHook = (data: never, model: never) => unknown;
+
+// how the hooks are called, `run` and `runSync` hand them data of their name
+type CalledHook = (data: unknown, model: unknown) => unknown;
+
+// a before hook returned false
+export class VetoError extends Error {
+  constructor(
+    public readonly hook: HookName,
+    name: string = "model",
+  ) {
+    super(`Vetoed by the ${hook} hook of ${name}`);
+    this.name = "VetoError";
+  }
+}
+
+// the hooks of one model class - the hooks of the parent (the global ones) run first
+export class Hooks<T extends HasId> {
+  // the hook types differ per name, `on` checks them
+  private hooks: { [K in HookName]?: StoredHook[] } = {};
+
+  constructor(private parent?: Hooks<AnyProps>) {}
+
+  on = <K extends HookName>(
+    hookName: K,
+    hook: HookFunctions<T>[K],
+  ): Unsubscribe => {
+    const list: StoredHook[] = this.hooks[hookName] || [];
+    list.push(hook);
+    this.hooks[hookName] = list;
+    return () => {
+      const index = list.indexOf(hook);
+      if (index !== -1) {
+        list.splice(index, 1);
+      }
+    };
+  };
+
+  list = (hookName: HookName): CalledHook[] => {
+    return [
+      ...(this.parent?.list(hookName) || []),
+      ...((this.hooks[hookName] || []) as CalledHook[]),
+    ];
+  };
+
+  // hand the data from hook to hook, `false` as soon as one vetoes
+  run = async <K extends HookName>(
+    hookName: K,
+    data: HookData<T, K>,
+    model: Model<T>,
+  ): Promise<HookData<T, K> | false> => {
+    let current = data;
+    for (const hook of this.list(hookName)) {
+      const result: unknown = await hook(current, model);
+      if (result === false) {
+        return false;
+      }
+      if (result !== undefined) {
+        current = result as HookData<T, K>;
+      }
+    }
+    return current;
+  };
+
+  // the same for the set hooks, a promise returned by afterSet is not waited for
+  // a beforeSet hook that returns one throws - its data or veto would come after the set
+  runSync = <K extends "beforeSet" | "afterSet">(
+    hookName: K,
+    data: HookData<T, K>,
+    model: Model<T>,
+  ): HookData<T, K> | false => {
+    let current = data;
+    for (const hook of this.list(hookName)) {
+      const result: unknown = hook(current, model);
+      if (result instanceof Promise && hookName === "beforeSet") {
+        result.catch(() => undefined);
+        throw new TypeError(
+          "A beforeSet hook returned a promise, beforeSet hooks must be synchronous",
+        );
+      } else if (result instanceof Promise) {
+        result.catch((error: unknown) =>
+          console.error(`${hookName} hook failed:`, error),
+        );
+      } else if (result === false) {
+        return false;
+      } else if (result !== undefined) {
+        current = result as HookData<T, K>;
+      }
+    }
+    return current;
+  };
+}
+
+// registered once, run for every model class
+export const hooks = new Hooks<AnyProps>();
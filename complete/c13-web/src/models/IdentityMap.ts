@@ -0,0 +1,61 @@
+import { parse } from "./Codec";
+import type { Model, ModelOptions } from "./Model";
+import type { ModelClass } from "./Relations";
+import type { HasId } from "./Sync";
+import { hasErrors } from "./Validation";
+
+// the live instance of every record id of one resource
+// an instance stays until it is destroyed or evicted, evict() the ones that are not used any more
+export class IdentityMap<M> {
+  private instances = new Map<string, M>();
+
+  get size(): number {
+    return this.instances.size;
+  }
+
+  get = (id: string): M | undefined => {
+    return this.instances.get(id);
+  };
+
+  set = (id: string, model: M): void => {
+    this.instances.set(id, model);
+  };
+
+  evict = (id: string): void => {
+    this.instances.delete(id);
+  };
+
+  clear = (): void => {
+    this.instances.clear();
+  };
+}
+
+// the one instance of the record - created the first time, later json is applied to it
+// attrs - the server copy of the record
+// a model without an id is not tracked, a destroyed one is evicted
+// the fields that cannot be parsed trigger `invalid`, on a new instance once the caller could listen
+export const instanceOf = <T extends HasId, M extends Model<T>>(
+  Target: ModelClass<T, M>,
+  attrs: T,
+  options?: ModelOptions<T>,
+): M => {
+  const { id } = attrs;
+  if (id === undefined) {
+    return new Target(attrs, options);
+  }
+  const existing = Target.identityMap.get(id) as M | undefined;
+  if (existing) {
+    existing.receive(attrs);
+    return existing;
+  }
+  const model = new Target(attrs, options);
+  // the json of the record, later saves patch the fields that change
+  model.attributes.markSynced();
+  Target.identityMap.set(id, model);
+  model.on("destroy", () => Target.identityMap.evict(id));
+  const { errors } = parse(model.codecs, attrs);
+  if (hasErrors(errors)) {
+    queueMicrotask(() => model.trigger("invalid", errors));
+  }
+  return model;
+};
@@ -0,0 +1,95 @@
+import {
+  type HasId,
+  type RequestOptions,
+  type Sync,
+  matches,
+  nextVersion,
+} from "./Sync";
+import { applyChanges } from "./Patch";
+import { type Page, type QuerySpec, evaluate } from "./Query";
+
+// keeps the records as a json array under one localStorage key, browser only
+export class LocalStorageSync<T extends HasId> implements Sync<T> {
+  constructor(
+    public key: string = "users",
+    public storage: Storage = window.localStorage,
+  ) {}
+
+  fetch(id: string): Promise<T> {
+    const record = this.read().find((record) => record.id === id);
+    if (!record) {
+      return Promise.reject(new Error(`Record ${id} not found`));
+    }
+    return Promise.resolve(record);
+  }
+
+  fetchAll(): Promise<T[]> {
+    return Promise.resolve(this.read());
+  }
+
+  fetchWhere(filter: Partial<T>): Promise<T[]> {
+    return Promise.resolve(
+      this.read().filter((record) => matches(record, filter)),
+    );
+  }
+
+  fetchQuery(query: QuerySpec<T>): Promise<Page<T>> {
+    return Promise.resolve(evaluate(this.read(), query));
+  }
+
+  save(data: T, options: RequestOptions = {}): Promise<T> {
+    const records = this.read();
+    const index = records.findIndex((item) => item.id === data.id);
+    let record: T;
+    try {
+      record = nextVersion(data, records[index], options, records);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+    if (index === -1) {
+      records.push(record);
+    } else {
+      records[index] = record;
+    }
+    this.storage.setItem(this.key, JSON.stringify(records));
+    return Promise.resolve(record);
+  }
+
+  patch(
+    id: string,
+    changes: Partial<T>,
+    options: RequestOptions = {},
+  ): Promise<T> {
+    const records = this.read();
+    const index = records.findIndex((item) => item.id === id);
+    if (index === -1) {
+      return Promise.reject(new Error(`Record ${id} not found`));
+    }
+    const remote = records[index];
+    let record: T;
+    try {
+      record = nextVersion(applyChanges(remote, changes), remote, options);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+    records[index] = record;
+    this.storage.setItem(this.key, JSON.stringify(records));
+    return Promise.resolve(record);
+  }
+
+  delete(id: string): Promise<void> {
+    const records = this.read();
+    const index = records.findIndex((item) => item.id === id);
+    if (index === -1) {
+      return Promise.reject(new Error(`Record ${id} not found`));
+    }
+    records.splice(index, 1);
+    this.storage.setItem(this.key, JSON.stringify(records));
+    return Promise.resolve();
+  }
+
+  private read(): T[] {
+    const json = this.storage.getItem(this.key);
+    return json ? (JSON.parse(json) as T[]) : [];
+  }
+}
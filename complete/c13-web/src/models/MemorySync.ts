@@ -0,0 +1,92 @@
+import {
+  type HasId,
+  type RequestOptions,
+  type Sync,
+  matches,
+  nextVersion,
+} from "./Sync";
+import { applyChanges } from "./Patch";
+import { type Page, type QuerySpec, evaluate } from "./Query";
+
+// keeps the records in memory, for tests without a server
+export class MemorySync<T extends HasId> implements Sync<T> {
+  records: T[];
+
+  constructor(records: T[] = []) {
+    this.records = records.map((record) => ({ ...record }));
+  }
+
+  fetch(id: string): Promise<T> {
+    const record = this.records.find((record) => record.id === id);
+    if (!record) {
+      return Promise.reject(new Error(`Record ${id} not found`));
+    }
+    return Promise.resolve({ ...record });
+  }
+
+  fetchAll(): Promise<T[]> {
+    return Promise.resolve(this.records.map((record) => ({ ...record })));
+  }
+
+  fetchWhere(filter: Partial<T>): Promise<T[]> {
+    return Promise.resolve(
+      this.records
+        .filter((record) => matches(record, filter))
+        .map((record) => ({ ...record })),
+    );
+  }
+
+  fetchQuery(query: QuerySpec<T>): Promise<Page<T>> {
+    return Promise.resolve(
+      evaluate(
+        this.records.map((record) => ({ ...record })),
+        query,
+      ),
+    );
+  }
+
+  save(data: T, options: RequestOptions = {}): Promise<T> {
+    const index = this.records.findIndex((item) => item.id === data.id);
+    let record: T;
+    try {
+      record = nextVersion(data, this.records[index], options, this.records);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+    if (index === -1) {
+      this.records.push(record);
+    } else {
+      this.records[index] = record;
+    }
+    return Promise.resolve({ ...record });
+  }
+
+  patch(
+    id: string,
+    changes: Partial<T>,
+    options: RequestOptions = {},
+  ): Promise<T> {
+    const index = this.records.findIndex((item) => item.id === id);
+    if (index === -1) {
+      return Promise.reject(new Error(`Record ${id} not found`));
+    }
+    const remote = this.records[index];
+    let record: T;
+    try {
+      record = nextVersion(applyChanges(remote, changes), remote, options);
+    } catch (error) {
+      return Promise.reject(error);
+    }
+    this.records[index] = record;
+    return Promise.resolve({ ...record });
+  }
+
+  delete(id: string): Promise<void> {
+    const index = this.records.findIndex((item) => item.id === id);
+    if (index === -1) {
+      return Promise.reject(new Error(`Record ${id} not found`));
+    }
+    this.records.splice(index, 1);
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,135 @@
+import { describe, expect, test } from "vitest";
+import { MemorySync } from "./MemorySync";
+import { SyncError } from "./Sync";
+import { ValidationError } from "./Validation";
+import { User, type UserProps } from "./User";
+
+const users = () =>
+  new MemorySync<UserProps>([{ id: "1", name: "a", age: 1, version: 1 }]);
+
+describe("promise api", () => {
+  test("fetch resolves with the model", async () => {
+    const user = new User({ id: "1" }, { sync: users() });
+
+    expect(await user.fetch()).toBe(user);
+    expect(user.get("name")).toBe("a");
+  });
+
+  test("fetch rejects with a SyncError and still triggers error", async () => {
+    const user = new User({ id: "9" }, { sync: users() });
+    const errors: SyncError[] = [];
+    user.on("error", (error) => {
+      errors.push(error);
+    });
+
+    const error = await user.fetch().catch((error: unknown) => error);
+
+    expect(error).toBeInstanceOf(SyncError);
+    expect(errors).toEqual([error]);
+  });
+
+  test("fetch keeps the server copy that breaks the schema", async () => {
+    const name = "a".repeat(60);
+    const sync = new MemorySync<UserProps>([
+      { id: "1", name, age: 20, version: 3 },
+    ]);
+    const user = new User({ id: "1", name: "local", age: 1 }, { sync });
+
+    await expect(user.fetch()).rejects.toBeInstanceOf(ValidationError);
+
+    expect(user.attributes.getAll()).toEqual({
+      id: "1",
+      name,
+      age: 20,
+      version: 3,
+    });
+    expect(user.isDirty()).toBe(false);
+    expect(user.previous("version")).toBe(3);
+  });
+
+  test("save resolves once the server has the model", async () => {
+    const sync = users();
+    const user = new User({ name: "b" }, { sync });
+    const saved: UserProps[] = [];
+    user.on("save", (data) => {
+      saved.push(data);
+    });
+
+    await user.save();
+
+    expect(user.get("id")).toBeDefined();
+    expect(saved).toEqual([sync.records[1]]);
+  });
+
+  test("a set while the save is in flight stays unsaved", async () => {
+    const sync = users();
+    const user = new User({ id: "1" }, { sync });
+    await user.fetch();
+    user.set({ name: "b" });
+
+    const saving = user.save();
+    user.set({ age: 50 });
+    await saving;
+
+    expect(user.isDirty()).toBe(true);
+    expect(user.changedAttributes()).toEqual({ age: 50 });
+    await user.save();
+    expect(sync.records[0]).toMatchObject({ name: "b", age: 50 });
+  });
+
+  test("a model that was never synced is saved whole", async () => {
+    const sync = users();
+    const user = new User({ id: "1", name: "new", age: 10 }, { sync });
+
+    await user.save();
+
+    expect(sync.records[0]).toEqual({
+      id: "1",
+      name: "new",
+      age: 10,
+      version: 2,
+    });
+  });
+
+  test("a save without changes sends nothing", async () => {
+    const sync = users();
+    const user = new User({ id: "1" }, { sync });
+    await user.fetch();
+    const saved: UserProps[] = [];
+    user.on("save", (data) => {
+      saved.push(data);
+    });
+
+    await user.save();
+
+    expect(sync.records[0].version).toBe(1);
+    expect(saved).toEqual([{ id: "1", name: "a", age: 1, version: 1 }]);
+  });
+
+  test("destroy deletes the record and triggers destroy", async () => {
+    const sync = users();
+    const collection = User.buildUserCollection(sync);
+    await new Promise((resolve) => {
+      collection.on("change", resolve);
+      collection.fetch();
+    });
+    const [user] = collection.models;
+    const destroyed: UserProps[] = [];
+    user.on("destroy", (data) => {
+      destroyed.push(data);
+    });
+
+    expect(await user.destroy()).toBe(user);
+
+    expect(sync.records).toEqual([]);
+    expect(destroyed).toEqual([{ id: "1", name: "a", age: 1, version: 1 }]);
+    expect(collection.models).toEqual([]);
+    expect(User.identityMap.get("1")).toBeUndefined();
+  });
+
+  test("destroy rejects when the delete fails", async () => {
+    const user = new User({ id: "9" }, { sync: users() });
+
+    await expect(user.destroy()).rejects.toBeInstanceOf(SyncError);
+  });
+});
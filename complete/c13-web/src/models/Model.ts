@@ -0,0 +1,601 @@
+import { Attributes } from "./Attributes";
+import { Eventing, type ModelEvents, type Unsubscribe } from "./Eventing";
+import { ApiSync } from "./ApiSync";
+import {
+  ConflictError,
+  type HasId,
+  type RequestOptions,
+  type Sync,
+  SyncError,
+  unwrap,
+} from "./Sync";
+import { type ConflictStrategy } from "./Conflict";
+import { type Codecs, parse, serialize } from "./Codec";
+import { OfflineSync } from "./OfflineSync";
+import { RealtimeSync } from "./Realtime";
+import { CachedSync } from "./Cache";
+import { IdentityMap, instanceOf } from "./IdentityMap";
+import { ComputedAttributes, type ComputedDefinitions } from "./Computed";
+import { Hooks, VetoError, hooks as globalHooks } from "./Hooks";
+import {
+  type FieldErrors,
+  type Schema,
+  ValidationError,
+  hasErrors,
+  validate,
+} from "./Validation";
+import type { ModelClass, OwnedRelation } from "./Relations";
+import { QueryBuilder } from "./QueryBuilder";
+
+export interface ModelOptions<T extends HasId> {
+  // persistence adapter, the rest api at the resource url by default
+  sync?: Sync<T>;
+  // opt-in undo/redo of `set`
+  history?: { maxDepth?: number };
+  // how a save conflict is resolved, without one the `conflict` event is all that happens
+  conflict?: ConflictStrategy<T>;
+  // how an existing model is saved - only the changed fields by default, or the whole model
+  saveMethod?: "patch" | "put";
+}
+
+// include - relation keys to fetch along, e.g. ["posts", "company"] (rest api only)
+export interface FetchOptions extends RequestOptions {
+  include?: string[];
+}
+
+// what every instance of a resource shares, C - the computed attributes
+export interface ModelDefinition<T extends HasId, C = {}> {
+  // e.g. http://localhost:3000/users
+  url: string;
+  defaults?: T;
+  schema?: Schema<T>;
+  // how the fields are parsed from json and serialized back, e.g. { age: numberCodec }
+  codecs?: Codecs<T>;
+  // used in error messages
+  name?: string;
+  // derived values read through `get`, e.g. { isAdult: { deps: ["age"], compute: ... } }
+  computed?: ComputedDefinitions<T, C>;
+}
+
+// composes Attributes, Eventing and Sync - a resource only defines its props
+export class Model<T extends HasId, C = {}> {
+  public events: Eventing<ModelEvents<T, C>> = new Eventing<
+    ModelEvents<T, C>
+  >();
+  public sync: Sync<T>;
+  public attributes: Attributes<T>;
+  public computed: ComputedAttributes<T, C>;
+  public resolveConflict?: ConflictStrategy<T>;
+  public saveMethod: "patch" | "put";
+  public name: string;
+  public codecs: Codecs<T>;
+  // filled by the hasMany/hasOne/belongsTo fields of the subclass
+  public relations: OwnedRelation[] = [];
+  // the listeners on the sync adapter, dropped by unbind()
+  private unbinds: Unsubscribe[] = [];
+
+  constructor(
+    attrs: T,
+    public definition: ModelDefinition<T, C>,
+    options: ModelOptions<T> = {},
+    // the lifecycle hooks of the model class
+    public hooks: Hooks<T> = new Hooks<T>(globalHooks),
+  ) {
+    this.codecs = definition.codecs || {};
+    // a value that cannot be parsed is kept, save reports it - and instanceOf for server json
+    const data = { ...definition.defaults, ...attrs };
+    this.attributes = new Attributes<T>(
+      { ...data, ...parse(this.codecs, data).data },
+      definition.schema,
+    );
+    this.computed = new ComputedAttributes<T, C>(
+      this.attributes,
+      definition.computed || ({} as ComputedDefinitions<T, C>),
+    );
+    // registered first, the computed values are fresh for the other change handlers
+    this.on("change", (changes) => {
+      const computed = this.computed.changes(changes);
+      if (Object.keys(computed).length > 0) {
+        this.trigger("computed", computed);
+      }
+    });
+    this.name = definition.name || "model";
+    this.sync = options.sync || new ApiSync<T>(definition.url);
+    this.resolveConflict = options.conflict;
+    this.saveMethod = options.saveMethod || "patch";
+    // the wrappers may be stacked, e.g. new CachedSync(new OfflineSync(api))
+    for (const adapter of unwrap(this.sync)) {
+      if (adapter instanceof OfflineSync) {
+        this.bindOutbox(adapter);
+      }
+      if (adapter instanceof RealtimeSync) {
+        this.bindRealtime(adapter);
+      }
+      if (adapter instanceof CachedSync) {
+        this.bindCache(adapter);
+      }
+    }
+    if (options.history) {
+      this.attributes.enableHistory(options.history.maxDepth);
+    }
+  }
+
+  //use getter to pass through the call
+  get on() {
+    return this.events.on;
+  }
+
+  get trigger() {
+    return this.events.trigger;
+  }
+  // a field or a computed attribute
+  get = <K extends keyof T | keyof C>(key: K): (T & C)[K] => {
+    if (this.computed.has(key)) {
+      return this.computed.get(key as keyof C) as (T & C)[K];
+    }
+    return this.attributes.get(key as keyof T) as (T & C)[K];
+  };
+
+  get isDirty() {
+    return this.attributes.isDirty;
+  }
+
+  get changedAttributes() {
+    return this.attributes.changedAttributes;
+  }
+
+  get previous() {
+    return this.attributes.previous;
+  }
+
+  // the errors of the fields that were not valid, nothing is set then
+  // nothing is set either when a beforeSet hook vetoes
+  set(update: T): FieldErrors<T> {
+    const hooked = this.hooks.runSync("beforeSet", update, this);
+    if (hooked === false) {
+      return {};
+    }
+    const changes = this.attributes.diff(hooked);
+    const errors = this.attributes.set(hooked);
+    if (hasErrors(errors)) {
+      this.trigger("invalid", errors);
+      return errors;
+    }
+    this.trigger("change", changes);
+    this.hooks.runSync("afterSet", changes, this);
+    return errors;
+  }
+
+  get canUndo(): boolean {
+    return this.attributes.history?.canUndo ?? false;
+  }
+
+  get canRedo(): boolean {
+    return this.attributes.history?.canRedo ?? false;
+  }
+
+  undo = (): void => {
+    const changes = this.attributes.undo();
+    if (changes) {
+      this.trigger("change", changes);
+    }
+  };
+
+  redo = (): void => {
+    const changes = this.attributes.redo();
+    if (changes) {
+      this.trigger("change", changes);
+    }
+  };
+
+  // several `set` calls as one undo step
+  transaction = (callback: () => void): void => {
+    if (!this.attributes.history) {
+      callback();
+      return;
+    }
+    this.attributes.history.transaction(callback);
+  };
+
+  // drop the unsaved changes
+  revert = (): void => {
+    this.trigger("change", this.attributes.revert());
+  };
+
+  // resolves with the model, rejects with a SyncError, or a ValidationError when the server data is invalid
+  // or with a VetoError of the beforeFetch/afterFetch hooks
+  fetch = async (options: FetchOptions = {}): Promise<this> => {
+    const id = this.get("id");
+    if (typeof id !== "string") {
+      throw new SyncError(`Cannot fetch ${this.name} without an id`);
+    }
+
+    const hooked = await this.hooks.run("beforeFetch", options, this);
+    if (hooked === false) {
+      throw new VetoError("beforeFetch", this.name);
+    }
+    const { include = [], ...requestOptions } = hooked;
+    let json: T;
+    try {
+      json = await this.sync.fetch(id, {
+        ...requestOptions,
+        params: this.includeParams(include),
+      });
+    } catch (error) {
+      throw this.fail(new SyncError(`Failed to fetch ${this.name}`, error));
+    }
+
+    const received = await this.hooks.run(
+      "afterFetch",
+      this.takeEmbedded(json),
+      this,
+    );
+    if (received === false) {
+      throw new VetoError("afterFetch", this.name);
+    }
+    // the fields that cannot be parsed keep their value and are reported
+    const { data, errors } = parse(this.codecs, received);
+    const invalid = { ...this.applyServer(data), ...errors };
+    this.attributes.history?.clear();
+    if (hasErrors(invalid)) {
+      this.trigger("invalid", invalid);
+      throw new ValidationError(invalid, this.name);
+    }
+    return this;
+  };
+
+  // the server copy is applied as it is - also when it breaks the schema - and becomes the synced one
+  // so the version of the next save is the one of the server, the schema errors are returned
+  private applyServer(data: T): FieldErrors<T> {
+    const changes = this.attributes.assign(data);
+    this.attributes.markSynced({ ...this.attributes.getSynced(), ...data });
+    if (Object.keys(changes).length > 0) {
+      this.trigger("change", changes);
+    }
+    return validate(
+      this.attributes.schema,
+      this.attributes.getAll(),
+      Object.keys(data) as (keyof T)[],
+    );
+  }
+
+  // { _embed: ["posts"], _expand: ["company"] }
+  private includeParams(include: string[]): { [param: string]: string[] } {
+    const params: { [param: string]: string[] } = {};
+    for (const relation of this.relations) {
+      if (include.includes(relation.key)) {
+        params[relation.param] = [
+          ...(params[relation.param] || []),
+          relation.key,
+        ];
+      }
+    }
+    return params;
+  }
+
+  // hand the included data to the relations, it is no attribute of the model
+  private takeEmbedded(data: T): T {
+    const attrs = { ...data } as T & { [key: string]: unknown };
+    for (const relation of this.relations) {
+      if (relation.key in attrs) {
+        relation.embed(attrs[relation.key]);
+        delete attrs[relation.key];
+      }
+    }
+    return attrs;
+  }
+
+  print = (): void => {
+    console.log(this.attributes);
+  };
+
+  // the version of the last fetch or save is sent along, a newer server copy is a conflict
+  // resolves with the model (also while it waits in the offline outbox)
+  // rejects with a ValidationError, a ConflictError that no strategy resolved, a SyncError or a VetoError
+  async save(options: RequestOptions = {}): Promise<this> {
+    const errors = {
+      ...this.attributes.validate(),
+      ...parse(this.codecs, this.attributes.getAll()).errors,
+    };
+    if (hasErrors(errors)) {
+      this.trigger("invalid", errors);
+      throw new ValidationError(errors, this.name);
+    }
+    const local = { ...this.attributes.getAll() };
+    const hooked = await this.hooks.run("beforeSave", { ...local }, this);
+    if (hooked === false) {
+      throw new VetoError("beforeSave", this.name);
+    }
+
+    // the base of the sent data, a set while the save is in flight stays unsaved
+    const synced = this.attributes.getSynced();
+    let json: T;
+    try {
+      json = await this.send(hooked, {
+        ...options,
+        expectedVersion: this.attributes.previous("version"),
+      });
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return this.onConflict(error, options);
+      }
+      throw this.fail(new SyncError(`Failed to save ${this.name}`, error));
+    }
+
+    const { data } = parse(this.codecs, json);
+    // the server assigns the id of a new model and the next version
+    const changes = this.attributes.assign({
+      ...this.hookedFields(local, hooked),
+      id: data.id,
+      version: data.version,
+    });
+    this.attributes.markSynced({
+      ...synced,
+      ...hooked,
+      id: data.id,
+      version: data.version,
+    });
+    if (Object.keys(changes).length > 0) {
+      this.trigger("change", changes);
+    }
+    // a write in the outbox may still fail, afterSave runs once it is replayed
+    if (this.isPending()) {
+      this.trigger("pending", data);
+    } else {
+      this.trigger("save", data);
+      await this.hooks.run("afterSave", data, this);
+    }
+    return this;
+  }
+
+  // the fields the beforeSave hooks added or changed, they were saved so the model takes them
+  // a field set again while the save was in flight keeps the newer value
+  private hookedFields(local: T, hooked: T): Partial<T> {
+    const attrs = this.attributes.getAll();
+    const fields: Partial<T> = {};
+    for (const key of Object.keys(hooked) as (keyof T)[]) {
+      if (hooked[key] !== local[key] && attrs[key] === local[key]) {
+        fields[key] = hooked[key];
+      }
+    }
+    return fields;
+  }
+
+  // delete the record, a model that was never saved is only dropped
+  destroy = async (options: RequestOptions = {}): Promise<this> => {
+    const data = this.attributes.getAll();
+    if ((await this.hooks.run("beforeDestroy", data, this)) === false) {
+      throw new VetoError("beforeDestroy", this.name);
+    }
+    const id = this.get("id");
+    if (id !== undefined) {
+      try {
+        await this.sync.delete(id, options);
+      } catch (error) {
+        throw this.fail(new SyncError(`Failed to destroy ${this.name}`, error));
+      }
+    }
+    this.trigger("destroy", data);
+    return this;
+  };
+
+  // report the error, then reject with it
+  private fail(error: SyncError): SyncError {
+    this.trigger("error", error);
+    return error;
+  }
+
+  // the save is waiting in the offline outbox
+  isPending = (): boolean => {
+    const id = this.get("id");
+    return (
+      id !== undefined &&
+      unwrap(this.sync).some(
+        (adapter) => adapter instanceof OfflineSync && adapter.isPending(id),
+      )
+    );
+  };
+
+  // follow the queued writes of this model while they are replayed
+  // only the replayed data becomes the synced one, the edits made since stay unsaved
+  private bindOutbox(sync: OfflineSync<T>): void {
+    this.unbinds.push(
+      sync.on("reconcile", ({ tempId, id }) => {
+        if (this.get("id") === tempId) {
+          this.trigger("change", this.attributes.assign({ id } as Partial<T>));
+          this.attributes.markSynced({ ...this.attributes.getSynced(), id });
+        }
+      }),
+      sync.on("replayed", ({ entry, data }) => {
+        if (
+          (data?.id ?? entry.id) !== this.get("id") ||
+          !data ||
+          entry.op === "delete"
+        ) {
+          return;
+        }
+        const sent = entry.op === "save" ? entry.data : entry.changes;
+        this.attributes.assign({ version: data.version } as Partial<T>);
+        this.attributes.markSynced({
+          ...this.attributes.getSynced(),
+          ...parse(this.codecs, sent as T).data,
+          id: data.id,
+          version: data.version,
+        });
+        if (!this.isPending()) {
+          this.trigger("save", data);
+          this.hooks
+            .run("afterSave", data, this)
+            .catch((error: unknown) =>
+              console.error("afterSave hook failed:", error),
+            );
+        }
+      }),
+      sync.on("failed", ({ entry, error }) => {
+        if (entry.id === this.get("id")) {
+          this.trigger("error", error);
+        }
+      }),
+    );
+  }
+
+  // stop following the sync adapter, e.g. once the model is not shown any more
+  unbind = (): void => {
+    this.unbinds.forEach((unbind) => unbind());
+    this.unbinds = [];
+  };
+
+  // server data of this model that did not come through fetch - skipped when its version is not newer
+  // the fields are set and become the synced ones, the ones that cannot be parsed keep their value and are reported
+  receive = (json: T): void => {
+    const { data, errors: parseErrors } = parse(this.codecs, json);
+    const version = this.get("version");
+    if (
+      version !== undefined &&
+      data.version !== undefined &&
+      data.version <= version
+    ) {
+      return;
+    }
+    const errors = { ...this.applyServer(data), ...parseErrors };
+    if (hasErrors(errors)) {
+      this.trigger("invalid", errors);
+    }
+  };
+
+  // apply what other clients saved - the echo of an own save carries no newer version
+  // only the topic of this record, it follows the id - a new model gets one on its first save
+  private bindRealtime(sync: RealtimeSync<T>): void {
+    let id: string | undefined;
+    let unsubscribe: Unsubscribe | undefined;
+    const follow = (): void => {
+      if (this.get("id") === id) {
+        return;
+      }
+      unsubscribe?.();
+      id = this.get("id");
+      unsubscribe =
+        id === undefined
+          ? undefined
+          : sync.subscribe(id, (event) => {
+              if (event.type === "deleted") {
+                this.trigger("destroy", this.attributes.getAll());
+              } else {
+                this.receive(event.data);
+              }
+            });
+    };
+    follow();
+    const unfollow = this.on("change", follow);
+    const unbind = (): void => {
+      unfollow();
+      unsubscribe?.();
+    };
+    this.unbinds.push(unbind);
+    // the deleted event of an own destroy() is not needed any more
+    this.on("destroy", unbind);
+  }
+
+  // a stale fetch was answered from the cache, the fresh copy follows
+  private bindCache(sync: CachedSync<T>): void {
+    this.unbinds.push(
+      sync.on("revalidated", ({ key, value }) => {
+        if (key === this.get("id")) {
+          this.receive(value);
+        }
+      }),
+    );
+  }
+
+  // patch the changed fields of an existing model, put is the fallback for servers without patch
+  // a model that was never fetched or saved is sent whole, nothing is sent when no field changed
+  // hooked - what the beforeSave hooks made of the model, the fields they added or changed are sent too
+  private send(hooked: T, options: RequestOptions): Promise<T> {
+    const id = this.get("id");
+    const data = serialize(this.codecs, hooked);
+    if (!id || this.saveMethod === "put" || !this.attributes.wasSynced) {
+      return this.sync.save(data, options);
+    }
+    const attrs = this.attributes.getAll();
+    const changed = this.attributes.changedAttributes();
+    const patch: Partial<T> = {};
+    for (const key of Object.keys(hooked) as (keyof T)[]) {
+      if (key in changed || hooked[key] !== attrs[key]) {
+        patch[key] = hooked[key];
+      }
+    }
+    if (Object.keys(patch).length === 0) {
+      return Promise.resolve({ ...this.attributes.getSynced(), ...hooked });
+    }
+    return this.sync
+      .patch(id, serialize(this.codecs, patch), options)
+      .catch((error: unknown) => {
+        if (
+          error instanceof SyncError &&
+          (error.status === 405 || error.status === 501)
+        ) {
+          return this.sync.save(data, options);
+        }
+        throw error;
+      });
+  }
+
+  // the server copy becomes the new base, the strategy decides the data to keep
+  private async onConflict(
+    error: ConflictError<T>,
+    options: RequestOptions,
+  ): Promise<this> {
+    const { data: remote } = parse(this.codecs, error.remote);
+    const conflict = {
+      local: { ...this.attributes.getAll() },
+      remote,
+      base: this.attributes.getSynced(),
+    };
+    this.trigger("conflict", conflict);
+    if (!this.resolveConflict) {
+      throw error;
+    }
+
+    const resolved = this.resolveConflict(conflict);
+    this.attributes.markSynced(remote);
+    this.trigger(
+      "change",
+      this.attributes.assign({ ...resolved, version: remote.version }),
+    );
+    return this.attributes.isDirty() ? this.save(options) : this;
+  }
+}
+
+// a model class for one resource, e.g. `class Post extends buildModel<PostProps>({ url }) {}`
+export const buildModel = <T extends HasId, C = {}>(
+  definition: ModelDefinition<T, C>,
+) => {
+  const hooks = new Hooks<T>(globalHooks);
+  return class extends Model<T, C> {
+    static definition = definition;
+    static identityMap = new IdentityMap<Model<T>>();
+    // User.hooks.on("beforeSave", (data) => ({ ...data, name: data.name?.trim() }))
+    static hooks = hooks;
+
+    // the one live instance of a record - User.instance({ id: "1" }).fetch()
+    static instance<M extends Model<T>>(
+      this: ModelClass<T, M>,
+      attrs: T,
+      options?: ModelOptions<T>,
+    ): M {
+      return instanceOf(this, attrs, options);
+    }
+
+    // User.query().where("age", ">", 30) - the sync is the rest api of the resource by default
+    static query<M extends Model<T>>(
+      this: ModelClass<T, M>,
+      sync?: Sync<T>,
+    ): QueryBuilder<T, M> {
+      return new QueryBuilder<T, M>(this, sync);
+    }
+
+    constructor(attrs: T = {} as T, options: ModelOptions<T> = {}) {
+      super(attrs, definition, options, hooks);
+    }
+  };
+};
@@ -0,0 +1,150 @@
+import { describe, expect, test } from "vitest";
+import { CachedSync } from "./Cache";
+import { MemorySync } from "./MemorySync";
+import { OfflineSync, tempIdPrefix } from "./OfflineSync";
+import { SyncError } from "./Sync";
+import { User, type UserProps } from "./User";
+
+const wait = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+const flush = () => wait(0);
+
+// a server that can be switched off
+class FlakySync extends MemorySync<UserProps> {
+  down = false;
+
+  save(data: UserProps, options = {}): Promise<UserProps> {
+    return this.down ? this.unreachable() : super.save(data, options);
+  }
+
+  patch(id: string, changes: Partial<UserProps>, options = {}) {
+    return this.down ? this.unreachable() : super.patch(id, changes, options);
+  }
+
+  private unreachable(): Promise<never> {
+    return Promise.reject(new SyncError("unreachable", undefined, "network"));
+  }
+}
+
+describe("OfflineSync", () => {
+  test("queues the writes made offline and replays them in order", async () => {
+    const remote = new FlakySync();
+    const sync = new OfflineSync<UserProps>(remote);
+    const user = new User({ name: "a", age: 1 }, { sync });
+    const events: string[] = [];
+    user.on("pending", () => {
+      events.push("pending");
+    });
+    user.on("save", () => {
+      events.push("save");
+    });
+
+    remote.down = true;
+    user.save();
+    await flush();
+    const tempId = user.get("id");
+    expect(tempId?.startsWith(tempIdPrefix)).toBe(true);
+    expect(user.isPending()).toBe(true);
+
+    remote.down = false;
+    user.set({ name: "b" });
+    user.save();
+    await flush();
+    // queued behind the first write even though the server is back
+    expect(sync.outbox.entries.map((entry) => entry.op)).toEqual([
+      "save",
+      "patch",
+    ]);
+    expect(remote.records).toEqual([]);
+
+    await sync.replay();
+
+    expect(sync.outbox.size).toBe(0);
+    expect(user.isPending()).toBe(false);
+    expect(user.get("id")).not.toBe(tempId);
+    expect(remote.records).toEqual([
+      { id: user.get("id"), name: "b", age: 1, version: 2 },
+    ]);
+    expect(user.get("version")).toBe(2);
+    expect(events).toEqual(["pending", "pending", "save"]);
+  });
+
+  test("an edit made while a write waits in the outbox stays unsaved", async () => {
+    const remote = new FlakySync([{ id: "1", name: "a", age: 1, version: 1 }]);
+    const sync = new OfflineSync<UserProps>(remote);
+    const user = new User({ id: "1" }, { sync });
+    await user.fetch();
+
+    remote.down = true;
+    user.set({ name: "b" });
+    await user.save();
+    user.set({ age: 42 });
+    remote.down = false;
+    await sync.replay();
+
+    expect(remote.records[0]).toEqual({
+      id: "1",
+      name: "b",
+      age: 1,
+      version: 2,
+    });
+    expect(user.changedAttributes()).toEqual({ age: 42 });
+    await user.save();
+    expect(remote.records[0]).toMatchObject({ age: 42, version: 3 });
+  });
+
+  test("stops the replay while the server is still unreachable", async () => {
+    const remote = new FlakySync([{ id: "1", name: "a", version: 1 }]);
+    const sync = new OfflineSync<UserProps>(remote);
+
+    remote.down = true;
+    await sync.patch("1", { name: "b" }, { expectedVersion: 1 });
+    await sync.replay();
+    expect(sync.outbox.size).toBe(1);
+
+    remote.down = false;
+    await sync.replay();
+    expect(sync.outbox.size).toBe(0);
+    expect(remote.records[0]).toEqual({ id: "1", name: "b", version: 2 });
+  });
+
+  test("replays on its own once the server is back", async () => {
+    const remote = new FlakySync([{ id: "1", name: "a", version: 1 }]);
+    const sync = new OfflineSync<UserProps>(remote, undefined, {
+      retryDelay: 5,
+    });
+
+    remote.down = true;
+    await sync.patch("1", { name: "b" }, { expectedVersion: 1 });
+    await wait(20);
+    expect(sync.outbox.size).toBe(1);
+
+    remote.down = false;
+    await wait(50);
+    expect(sync.outbox.size).toBe(0);
+    expect(remote.records[0]).toEqual({ id: "1", name: "b", version: 2 });
+  });
+
+  test("a model finds the outbox under another wrapper", async () => {
+    const remote = new FlakySync();
+    const sync = new OfflineSync<UserProps>(remote);
+    const user = new User({ name: "a" }, { sync: new CachedSync(sync) });
+    const events: string[] = [];
+    user.on("pending", () => {
+      events.push("pending");
+    });
+    user.on("save", () => {
+      events.push("save");
+    });
+
+    remote.down = true;
+    await user.save();
+    expect(user.isPending()).toBe(true);
+
+    remote.down = false;
+    await sync.replay();
+
+    expect(user.isPending()).toBe(false);
+    expect(user.get("id")).toBe(remote.records[0].id);
+    expect(events).toEqual(["pending", "save"]);
+  });
+});
@@ -0,0 +1,238 @@
+import { Eventing } from "./Eventing";
+import { Outbox, type OutboxEntry, type OutboxStore } from "./Outbox";
+import type { Page, QuerySpec } from "./Query";
+import {
+  type HasId,
+  type RequestOptions,
+  type Sync,
+  SyncError,
+  generateId,
+} from "./Sync";
+
+// ids of records created offline, replaced by the server id on replay
+export const tempIdPrefix = "tmp-";
+
+// queued - a write went into the outbox, replayed - a queued write reached the server
+// failed - the server rejected a queued write, it is dropped
+// reconcile - the record created as tempId got its server id
+export type OfflineEvents<T extends HasId> = {
+  queued: OutboxEntry<T>;
+  replayed: { entry: OutboxEntry<T>; data?: T };
+  failed: { entry: OutboxEntry<T>; error: SyncError };
+  reconcile: { tempId: string; id: string };
+};
+
+export interface OfflineOptions {
+  // ms before the outbox is replayed on its own, doubled after every replay that still finds no network
+  retryDelay?: number;
+  // the longest wait between two replays
+  maxRetryDelay?: number;
+}
+
+// no answer from the server - worth trying again later
+const isOffline = (error: unknown): boolean => {
+  return (
+    error instanceof SyncError &&
+    (error.kind === "network" || error.kind === "timeout")
+  );
+};
+
+// wraps another adapter - writes made offline (or failing for lack of a network) go into an outbox
+// and are replayed in order when the connection is back - on the browser `online` event,
+// or on a backoff timer for a server that is down while the browser stays online
+export class OfflineSync<T extends HasId> implements Sync<T> {
+  events: Eventing<OfflineEvents<T>> = new Eventing<OfflineEvents<T>>();
+  outbox: Outbox<T>;
+  online: boolean;
+  private replaying?: Promise<void>;
+  private retryTimer?: ReturnType<typeof setTimeout>;
+  // replays in a row that found no network
+  private retries = 0;
+
+  constructor(
+    public remote: Sync<T>,
+    store?: OutboxStore<T>,
+    public options: OfflineOptions = {},
+  ) {
+    this.outbox = new Outbox<T>(store);
+    // the writes left over from the last page load
+    if (this.outbox.size > 0) {
+      this.scheduleReplay();
+    }
+    this.online = typeof navigator === "undefined" ? true : navigator.onLine;
+    if (typeof window !== "undefined") {
+      window.addEventListener("online", () => {
+        this.online = true;
+        this.replay();
+      });
+      window.addEventListener("offline", () => {
+        this.online = false;
+      });
+    }
+  }
+
+  get on() {
+    return this.events.on;
+  }
+
+  isPending = (id: string): boolean => {
+    return this.outbox.has(id);
+  };
+
+  fetch(id: string, options?: RequestOptions): Promise<T> {
+    return this.remote.fetch(id, options);
+  }
+
+  fetchAll(options?: RequestOptions): Promise<T[]> {
+    return this.remote.fetchAll(options);
+  }
+
+  fetchWhere(filter: Partial<T>, options?: RequestOptions): Promise<T[]> {
+    return this.remote.fetchWhere(filter, options);
+  }
+
+  fetchQuery(query: QuerySpec<T>, options?: RequestOptions): Promise<Page<T>> {
+    return this.remote.fetchQuery(query, options);
+  }
+
+  // a queued write resolves with the data the server is expected to return
+  save(data: T, options: RequestOptions = {}): Promise<T> {
+    const id = data.id || `${tempIdPrefix}${generateId()}`;
+    const version = (options.expectedVersion ?? data.version ?? 0) + 1;
+    return this.write(
+      {
+        op: "save",
+        id,
+        data: { ...data, id },
+        create: !data.id,
+        expectedVersion: options.expectedVersion,
+      },
+      () => this.remote.save(data, options),
+      { ...data, id, version },
+    );
+  }
+
+  patch(
+    id: string,
+    changes: Partial<T>,
+    options: RequestOptions = {},
+  ): Promise<T> {
+    const version = (options.expectedVersion ?? 0) + 1;
+    return this.write(
+      {
+        op: "patch",
+        id,
+        changes,
+        expectedVersion: options.expectedVersion,
+      },
+      () => this.remote.patch(id, changes, options),
+      { ...changes, id, version } as T,
+    );
+  }
+
+  delete(id: string, options?: RequestOptions): Promise<void> {
+    return this.write(
+      { op: "delete", id },
+      () => this.remote.delete(id, options),
+      undefined,
+    );
+  }
+
+  // send the queued writes in order, stops at the first one that still finds no network
+  replay = (): Promise<void> => {
+    if (!this.replaying) {
+      this.replaying = this.drain().finally(() => {
+        this.replaying = undefined;
+      });
+    }
+    return this.replaying;
+  };
+
+  // the outbox keeps the order - once it holds a write, every next write is queued behind it
+  private async write<R>(
+    entry: OutboxEntry<T>,
+    send: () => Promise<R>,
+    optimistic: R,
+  ): Promise<R> {
+    if (this.online && this.outbox.size === 0) {
+      try {
+        return await send();
+      } catch (error) {
+        if (!isOffline(error)) {
+          throw error;
+        }
+      }
+    }
+    this.outbox.push(entry);
+    this.events.trigger("queued", entry);
+    this.scheduleReplay();
+    return optimistic;
+  }
+
+  // a timer already running is kept, a browser that is offline waits for the `online` event
+  private scheduleReplay(): void {
+    if (this.retryTimer !== undefined) {
+      return;
+    }
+    const { retryDelay = 1000, maxRetryDelay = 30000 } = this.options;
+    const wait = Math.min(retryDelay * 2 ** this.retries, maxRetryDelay);
+    this.retries++;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined;
+      if (this.online) {
+        this.replay();
+      }
+    }, wait);
+  }
+
+  private async drain(): Promise<void> {
+    for (let entry = this.outbox.peek(); entry; entry = this.outbox.peek()) {
+      let data: T | undefined;
+      try {
+        data = await this.send(entry);
+      } catch (error) {
+        if (isOffline(error)) {
+          this.scheduleReplay();
+          return;
+        }
+        this.outbox.shift();
+        this.events.trigger("failed", {
+          entry,
+          error: new SyncError(
+            `Failed to replay ${entry.op} ${entry.id}`,
+            error,
+          ),
+        });
+        continue;
+      }
+
+      this.outbox.shift();
+      if (entry.op === "save" && entry.create && data?.id) {
+        this.outbox.rename(entry.id, data.id);
+        this.events.trigger("reconcile", { tempId: entry.id, id: data.id });
+      }
+      this.events.trigger("replayed", { entry, data });
+    }
+    clearTimeout(this.retryTimer);
+    this.retryTimer = undefined;
+    this.retries = 0;
+  }
+
+  private async send(entry: OutboxEntry<T>): Promise<T | undefined> {
+    switch (entry.op) {
+      case "save":
+        // a record created offline is posted without its temporary id
+        return this.remote.save(
+          entry.create ? { ...entry.data, id: undefined } : entry.data,
+          { expectedVersion: entry.expectedVersion },
+        );
+      case "patch":
+        return this.remote.patch(entry.id, entry.changes, {
+          expectedVersion: entry.expectedVersion,
+        });
+      case "delete":
+        await this.remote.delete(entry.id);
+        return undefined;
+    }
+  }
+}
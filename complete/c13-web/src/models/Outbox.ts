@@ -0,0 +1,94 @@
+import type { HasId } from "./Sync";
+
+// one write that could not be sent yet
+// create - a save of a new record, its id is a temporary client id until the server assigns one
+export type OutboxEntry<T extends HasId> =
+  | {
+      op: "save";
+      id: string;
+      data: T;
+      create: boolean;
+      expectedVersion?: number;
+    }
+  | { op: "patch"; id: string; changes: Partial<T>; expectedVersion?: number }
+  | { op: "delete"; id: string };
+
+// where the entries are kept between page loads
+export interface OutboxStore<T extends HasId> {
+  load(): OutboxEntry<T>[];
+  store(entries: OutboxEntry<T>[]): void;
+}
+
+export class MemoryOutboxStore<T extends HasId> implements OutboxStore<T> {
+  private entries: OutboxEntry<T>[] = [];
+
+  load(): OutboxEntry<T>[] {
+    return [...this.entries];
+  }
+
+  store(entries: OutboxEntry<T>[]): void {
+    this.entries = [...entries];
+  }
+}
+
+export class LocalStorageOutboxStore<
+  T extends HasId,
+> implements OutboxStore<T> {
+  constructor(
+    public key: string = "outbox",
+    public storage: Storage = window.localStorage,
+  ) {}
+
+  load(): OutboxEntry<T>[] {
+    const json = this.storage.getItem(this.key);
+    return json ? (JSON.parse(json) as OutboxEntry<T>[]) : [];
+  }
+
+  store(entries: OutboxEntry<T>[]): void {
+    this.storage.setItem(this.key, JSON.stringify(entries));
+  }
+}
+
+// the writes in the order they were made
+export class Outbox<T extends HasId> {
+  entries: OutboxEntry<T>[];
+
+  constructor(public store: OutboxStore<T> = new MemoryOutboxStore<T>()) {
+    this.entries = store.load();
+  }
+
+  get size(): number {
+    return this.entries.length;
+  }
+
+  push = (entry: OutboxEntry<T>): void => {
+    this.entries.push(entry);
+    this.store.store(this.entries);
+  };
+
+  peek = (): OutboxEntry<T> | undefined => {
+    return this.entries[0];
+  };
+
+  shift = (): OutboxEntry<T> | undefined => {
+    const entry = this.entries.shift();
+    this.store.store(this.entries);
+    return entry;
+  };
+
+  has = (id: string): boolean => {
+    return this.entries.some((entry) => entry.id === id);
+  };
+
+  // the server assigned `id` to the record created as `tempId`
+  rename = (tempId: string, id: string): void => {
+    this.entries = this.entries.map((entry) =>
+      entry.id !== tempId
+        ? entry
+        : entry.op === "save"
+          ? { ...entry, id, data: { ...entry.data, id } }
+          : { ...entry, id },
+    );
+    this.store.store(this.entries);
+  };
+}
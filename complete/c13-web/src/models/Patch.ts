@@ -0,0 +1,90 @@
+// json - the changed fields as plain json (json-server), a removed field is null - json has no undefined
+// merge-patch - JSON Merge Patch (RFC 7396), a removed field is null
+// json-patch - JSON Patch (RFC 6902), a list of operations
+export type PatchFormat = "json" | "merge-patch" | "json-patch";
+
+export const patchContentTypes: { [F in PatchFormat]: string } = {
+  json: "application/json",
+  "merge-patch": "application/merge-patch+json",
+  "json-patch": "application/json-patch+json",
+};
+
+export interface PatchOperation {
+  op: "add" | "remove" | "replace";
+  path: string;
+  value?: unknown;
+}
+
+// TODO: json pointer escaping - "~" becomes "~0" and "/" becomes "~1"
+const pointer = (key: string): string => {
+  return `/${key.replace(/~/g, "~0").replace(/\//g, "~1")}`;
+};
+
+// the request body of `changes` in the given format, an undefined value removes the field
+export const toPatch = <T extends object>(
+  changes: Partial<T>,
+  format: PatchFormat,
+): unknown => {
+  const entries = Object.entries(changes);
+  switch (format) {
+    case "json":
+    case "merge-patch":
+      return Object.fromEntries(
+        entries.map(([key, value]) => [
+          key,
+          value === undefined ? null : value,
+        ]),
+      );
+    case "json-patch":
+      // "add" replaces an existing member, "replace" would fail on a missing one
+      return entries.map(([key, value]): PatchOperation =>
+        value === undefined
+          ? { op: "remove", path: pointer(key) }
+          : { op: "add", path: pointer(key), value },
+      );
+  }
+};
+
+// the changes of a request body in the given format, the other way round - for a server
+// a json patch can only add, replace or remove top-level fields
+export const fromPatch = <T extends object>(
+  body: unknown,
+  format: PatchFormat,
+): Partial<T> => {
+  switch (format) {
+    case "json":
+    case "merge-patch":
+      return Object.fromEntries(
+        Object.entries(body as object).map(([key, value]) => [
+          key,
+          value === null ? undefined : value,
+        ]),
+      ) as Partial<T>;
+    case "json-patch":
+      return Object.fromEntries(
+        (body as PatchOperation[]).map(({ op, path, value }) => {
+          if (!/^\/[^/]*$/.test(path)) {
+            throw new Error(`Unsupported json patch path ${path}`);
+          }
+          const key = path.slice(1).replace(/~1/g, "/").replace(/~0/g, "~");
+          return [key, op === "remove" ? undefined : value];
+        }),
+      ) as Partial<T>;
+  }
+};
+
+// copy of the record with the changes applied, an undefined value removes the field
+export const applyChanges = <T extends object>(
+  record: T,
+  changes: Partial<T>,
+): T => {
+  const patched: T = { ...record };
+  for (const key of Object.keys(changes) as (keyof T)[]) {
+    if (changes[key] === undefined) {
+      delete patched[key];
+    } else {
+      patched[key] = changes[key] as T[keyof T];
+    }
+  }
+  return patched;
+};
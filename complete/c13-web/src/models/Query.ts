@@ -0,0 +1,234 @@
+import type { HasId } from "./Sync";
+
+export type Operator = "=" | "!=" | ">" | ">=" | "<" | "<=" | "like";
+
+// like - a case insensitive regular expression, the others compare the field with the value
+export interface Condition<T> {
+  field: keyof T & string;
+  op: Operator;
+  value: unknown;
+}
+
+export interface SortKey<T> {
+  field: keyof T & string;
+  order: "asc" | "desc";
+}
+
+// what a QueryBuilder collects - the adapters either send it or evaluate it themselves
+export interface QuerySpec<T> {
+  where: Condition<T>[];
+  sort: SortKey<T>[];
+  // full text search over the string fields
+  search?: string;
+  // 1 based
+  page?: number;
+  limit?: number;
+}
+
+// total - the number of matching records of all pages
+export interface Page<T extends HasId> {
+  records: T[];
+  total: number;
+}
+
+export type QueryParams = { [key: string]: string | string[] };
+
+// json-server has no _gt and _lt - age > 30 is sent as age_gte=30&age_ne=30
+const suffixes: { [op in Operator]: string[] } = {
+  "=": [""],
+  "!=": ["_ne"],
+  ">": ["_gte", "_ne"],
+  ">=": ["_gte"],
+  "<": ["_lte", "_ne"],
+  "<=": ["_lte"],
+  like: ["_like"],
+};
+
+// the json-server parameters of the query, e.g. { age_gte: "30", _sort: "name", _order: "asc" }
+// a parameter given twice becomes a list - json-server requires all of the _ne values and any of the others
+export const toParams = <T>(query: QuerySpec<T>): QueryParams => {
+  const params: QueryParams = {};
+  const add = (key: string, value: string) => {
+    const current = params[key];
+    params[key] =
+      current === undefined
+        ? value
+        : [...([] as string[]).concat(current), value];
+  };
+
+  for (const { field, op, value } of query.where) {
+    for (const suffix of suffixes[op]) {
+      add(`${field}${suffix}`, String(value));
+    }
+  }
+  if (query.search !== undefined) {
+    add("q", query.search);
+  }
+  if (query.sort.length > 0) {
+    add("_sort", query.sort.map((key) => key.field).join(","));
+    add("_order", query.sort.map((key) => key.order).join(","));
+  }
+  if (query.page !== undefined) {
+    add("_page", String(query.page));
+    add("_limit", String(query.limit ?? 10));
+  }
+  return params;
+};
+
+const operators: { [suffix: string]: Operator } = {
+  "": "=",
+  _ne: "!=",
+  _gte: ">=",
+  _lte: "<=",
+  _like: "like",
+};
+
+// the query of json-server parameters, the other way round - for a server
+// unknown _ parameters (_embed, _start ...) are ignored
+export const fromParams = <T>(params: QueryParams): QuerySpec<T> => {
+  const query: QuerySpec<T> = { where: [], sort: [] };
+  const first = (key: string): string | undefined =>
+    ([] as (string | undefined)[]).concat(params[key])[0];
+
+  for (const [key, value] of Object.entries(params)) {
+    if (key === "q" || key.startsWith("_")) {
+      continue;
+    }
+    const [, field, suffix = ""] = /^(.+?)(_ne|_gte|_lte|_like)?$/.exec(key)!;
+    for (const item of ([] as string[]).concat(value)) {
+      query.where.push({
+        field: field as keyof T & string,
+        op: operators[suffix],
+        value: item,
+      });
+    }
+  }
+
+  query.search = first("q");
+  const orders = first("_order")?.split(",") || [];
+  query.sort = (first("_sort")?.split(",") || []).map((field, index) => ({
+    field: field as keyof T & string,
+    order: orders[index] === "desc" ? "desc" : "asc",
+  }));
+  const page = first("_page");
+  const limit = first("_limit");
+  if (page !== undefined || limit !== undefined) {
+    query.page = page === undefined ? 1 : Number(page);
+    query.limit = limit === undefined ? 10 : Number(limit);
+  }
+  return query;
+};
+
+// a record without the field never matches, the same as with json-server
+const test = <T>(record: T, { field, op, value }: Condition<T>): boolean => {
+  const actual = record[field] as unknown;
+  if (actual === undefined || actual === null) {
+    return false;
+  }
+  switch (op) {
+    case "=":
+      return String(actual) === String(value);
+    case "!=":
+      return String(actual) !== String(value);
+    case ">":
+      return (actual as number) > (value as number);
+    case ">=":
+      return (actual as number) >= (value as number);
+    case "<":
+      return (actual as number) < (value as number);
+    case "<=":
+      return (actual as number) <= (value as number);
+    case "like":
+      return like(String(value)).test(String(actual));
+  }
+};
+
+// a pattern that is no valid regular expression matches nothing, like "a("
+const like = (pattern: string): RegExp => {
+  try {
+    return new RegExp(pattern, "i");
+  } catch {
+    return /(?!)/;
+  }
+};
+
+// the conditions as json-server applies its parameters - all of the groups have to match
+// the = and like conditions of one field are a group that matches when any of them does
+const groups = <T>(where: Condition<T>[]): Condition<T>[][] => {
+  const result: Condition<T>[][] = [];
+  const anyOf = new Map<string, Condition<T>[]>();
+  for (const condition of where) {
+    if (condition.op !== "=" && condition.op !== "like") {
+      result.push([condition]);
+      continue;
+    }
+    const key = `${condition.field} ${condition.op}`;
+    const group = anyOf.get(key);
+    if (group) {
+      group.push(condition);
+    } else {
+      anyOf.set(key, [condition]);
+      result.push(anyOf.get(key) as Condition<T>[]);
+    }
+  }
+  return result;
+};
+
+// any string in the value, nested ones included, contains the text
+const contains = (value: unknown, text: string): boolean => {
+  if (typeof value === "string") {
+    return value.toLowerCase().includes(text);
+  }
+  if (value !== null && typeof value === "object") {
+    return Object.values(value).some((item) => contains(item, text));
+  }
+  return false;
+};
+
+const compare = <T>(a: T, b: T, sort: SortKey<T>[]): number => {
+  for (const { field, order } of sort) {
+    const x = a[field] as unknown as number | undefined;
+    const y = b[field] as unknown as number | undefined;
+    if (x === y) {
+      continue;
+    }
+    // a missing field sorts as the largest value
+    const result =
+      x === undefined || x === null
+        ? 1
+        : y === undefined || y === null
+          ? -1
+          : x < y
+            ? -1
+            : 1;
+    return order === "asc" ? result : -result;
+  }
+  return 0;
+};
+
+// run the query on records in memory, the way json-server runs it on db.json
+export const evaluate = <T extends HasId>(
+  records: T[],
+  query: QuerySpec<T>,
+): Page<T> => {
+  const search = query.search?.toLowerCase();
+  const where = groups(query.where);
+  const matching = records
+    .filter((record) =>
+      where.every((group) =>
+        group.some((condition) => test(record, condition)),
+      ),
+    )
+    .filter((record) => search === undefined || contains(record, search))
+    .sort((a, b) => compare(a, b, query.sort));
+
+  if (query.page === undefined) {
+    return { records: matching, total: matching.length };
+  }
+  const limit = query.limit ?? 10;
+  const start = (query.page - 1) * limit;
+  return {
+    records: matching.slice(start, start + limit),
+    total: matching.length,
+  };
+};
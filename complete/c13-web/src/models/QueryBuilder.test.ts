@@ -0,0 +1,99 @@
+import { describe, expect, test } from "vitest";
+import { MemorySync } from "./MemorySync";
+import { User, type UserProps } from "./User";
+
+const users = (): MemorySync<UserProps> =>
+  new MemorySync<UserProps>([
+    { id: "1", name: "ann", age: 40 },
+    { id: "2", name: "bob", age: 30 },
+    { id: "3", name: "cid", age: 50 },
+    { id: "4", name: "dan", age: 35 },
+    { id: "5", name: "Annie" },
+  ]);
+
+describe("QueryBuilder", () => {
+  test("compiles to json-server parameters", () => {
+    const query = User.query()
+      .where("age", ">", 30)
+      .where("age", "!=", 40)
+      .where("name", "like", "^a")
+      .search("an")
+      .sort("name")
+      .sort("age", "desc")
+      .page(2, 20);
+
+    expect(query.toParams()).toEqual({
+      age_gte: "30",
+      age_ne: ["30", "40"],
+      name_like: "^a",
+      q: "an",
+      _sort: "name,age",
+      _order: "asc,desc",
+      _page: "2",
+      _limit: "20",
+    });
+  });
+
+  test("evaluates the query against the in-memory adapter", async () => {
+    const { collection, pagination } = await User.query(users())
+      .where("age", ">", 30)
+      .sort("age", "desc")
+      .page(1, 2)
+      .fetch();
+
+    expect(collection.models.map((user) => user.get("name"))).toEqual([
+      "cid",
+      "ann",
+    ]);
+    expect(collection.models[0]).toBeInstanceOf(User);
+    expect(pagination).toEqual({ page: 1, limit: 2, total: 3, pages: 2 });
+  });
+
+  test("searches the string fields and skips records without the field", async () => {
+    const { collection } = await User.query(users())
+      .search("AN")
+      .where("age", "<=", 100)
+      .fetch();
+
+    // Annie has no age
+    expect(collection.models.map((user) => user.get("name"))).toEqual([
+      "ann",
+      "dan",
+    ]);
+  });
+
+  test("returns everything on one page without page()", async () => {
+    const { collection, pagination } = await User.query(users())
+      .sort("name")
+      .fetch();
+
+    expect(collection.models.map((user) => user.get("id"))).toEqual([
+      "5",
+      "1",
+      "2",
+      "3",
+      "4",
+    ]);
+    expect(pagination).toEqual({ page: 1, limit: 5, total: 5, pages: 1 });
+  });
+
+  test("the = and like conditions of one field match any of their values", async () => {
+    const { collection } = await User.query(users())
+      .where("age", "=", 30)
+      .where("age", "=", 50)
+      .where("name", "like", "^b")
+      .where("name", "like", "^c")
+      .where("age", "!=", 30)
+      .fetch();
+
+    expect(collection.models.map((user) => user.get("name"))).toEqual(["cid"]);
+  });
+
+  test("a like pattern that is no regular expression matches nothing", async () => {
+    const { collection } = await User.query(users())
+      .where("name", "like", "a(")
+      .fetch();
+
+    expect(collection.models).toEqual([]);
+  });
+});
@@ -0,0 +1,119 @@
+import { ApiSync } from "./ApiSync";
+import { Collection } from "./Collection";
+import { instanceOf } from "./IdentityMap";
+import type { Model } from "./Model";
+import {
+  type Operator,
+  type QueryParams,
+  type QuerySpec,
+  toParams,
+} from "./Query";
+import type { ModelClass } from "./Relations";
+import type { HasId, RequestOptions, Sync } from "./Sync";
+
+// page and limit of the query, pages - the number of pages of the total
+export interface Pagination {
+  page: number;
+  limit: number;
+  total: number;
+  pages: number;
+}
+
+export interface QueryResult<M extends Model<T>, T extends HasId> {
+  collection: Collection<M, T>;
+  pagination: Pagination;
+}
+
+// User.query().where("age", ">", 30).sort("name").page(2, 20).fetch()
+export class QueryBuilder<T extends HasId, M extends Model<T>> {
+  private spec: QuerySpec<T> = { where: [], sort: [] };
+
+  constructor(
+    public target: ModelClass<T, M>,
+    public sync: Sync<T> = new ApiSync<T>(target.definition.url),
+  ) {}
+
+  where<K extends keyof T & string>(
+    field: K,
+    op: "like",
+    pattern: string,
+  ): this;
+  where<K extends keyof T & string>(
+    field: K,
+    op: Exclude<Operator, "like">,
+    value: NonNullable<T[K]>,
+  ): this;
+  where<K extends keyof T & string>(
+    field: K,
+    op: Operator,
+    value: unknown,
+  ): this {
+    // compared with the json of the records, e.g. the ISO string of a date
+    const codec = this.target.definition.codecs?.[field];
+    this.spec.where.push({
+      field,
+      op,
+      value:
+        codec && op !== "like"
+          ? codec.serialize(value as NonNullable<T[K]>)
+          : value,
+    });
+    return this;
+  }
+
+  // called again for the next sort key
+  sort = (field: keyof T & string, order: "asc" | "desc" = "asc"): this => {
+    this.spec.sort.push({ field, order });
+    return this;
+  };
+
+  // q - any string field contains the text
+  search = (text: string): this => {
+    this.spec.search = text;
+    return this;
+  };
+
+  page = (page: number, limit: number = 10): this => {
+    this.spec.page = page;
+    this.spec.limit = limit;
+    return this;
+  };
+
+  toSpec = (): QuerySpec<T> => {
+    return {
+      ...this.spec,
+      where: [...this.spec.where],
+      sort: [...this.spec.sort],
+    };
+  };
+
+  // the json-server query parameters
+  toParams = (): QueryParams => {
+    return toParams(this.spec);
+  };
+
+  // the matching models of the page, they save through the sync of the query
+  fetch = async (options?: RequestOptions): Promise<QueryResult<M, T>> => {
+    const { records, total } = await this.sync.fetchQuery(
+      this.toSpec(),
+      options,
+    );
+    const collection = new Collection<M, T>(this.sync, (json: T) =>
+      instanceOf(this.target, json, { sync: this.sync }),
+    );
+    records.forEach((record) => {
+      collection.add(collection.deserialize(record), false);
+    });
+
+    const limit = this.spec.limit ?? Math.max(total, 1);
+    return {
+      collection,
+      pagination: {
+        page: this.spec.page ?? 1,
+        limit,
+        total,
+        pages: Math.ceil(total / limit),
+      },
+    };
+  };
+}
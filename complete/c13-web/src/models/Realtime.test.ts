@@ -0,0 +1,148 @@
+import { mkdtemp, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { WebSocket } from "ws";
+import { type RestServer, startServer } from "../server/RestServer";
+import { ApiSync } from "./ApiSync";
+import type { ChangeSet } from "./Attributes";
+import { RealtimeChannel, type RealtimeEvent, RealtimeSync } from "./Realtime";
+import { User, type UserProps } from "./User";
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+let dir: string;
+let server: RestServer;
+let channel: RealtimeChannel;
+// another client, writing straight to the rest api
+let other: ApiSync<UserProps>;
+
+const realtimeSync = (): RealtimeSync<UserProps> =>
+  new RealtimeSync(new ApiSync(`${server.url}/users`), channel, "users");
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "realtime-"));
+  const file = join(dir, "db.json");
+  await writeFile(
+    file,
+    JSON.stringify({ users: [{ id: "1", name: "ann", age: 40, version: 1 }] }),
+  );
+  server = await startServer({ file });
+  channel = new RealtimeChannel(
+    server.realtimeUrl,
+    (url) => new WebSocket(url),
+  );
+  await channel.ready;
+  other = new ApiSync<UserProps>(`${server.url}/users`);
+});
+
+afterEach(async () => {
+  channel.close();
+  await server.stop();
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("realtime", () => {
+  test("broadcasts the writes by resource and id", async () => {
+    const all: string[] = [];
+    const one: string[] = [];
+    const sync = realtimeSync();
+    sync.subscribeAll((event: RealtimeEvent<UserProps>) => {
+      all.push(`${event.type} ${event.id}`);
+    });
+    sync.subscribe("1", (event) => {
+      one.push(event.type);
+    });
+
+    const created = await other.save({ name: "bob" });
+    await other.patch("1", { age: 41 });
+    await other.delete("1");
+    await flush();
+
+    expect(all).toEqual([`created ${created.id}`, "updated 1", "deleted 1"]);
+    expect(one).toEqual(["updated", "deleted"]);
+  });
+
+  test("a model applies what another client saved", async () => {
+    const user = new User({ id: "1" }, { sync: realtimeSync() });
+    user.fetch();
+    await flush();
+    const changes: ChangeSet<UserProps>[] = [];
+    user.on("change", (change) => {
+      changes.push(change);
+    });
+
+    await other.patch("1", { name: "anna" }, { expectedVersion: 1 });
+    await flush();
+
+    expect(user.get("name")).toBe("anna");
+    expect(user.get("version")).toBe(2);
+    expect(user.isDirty()).toBe(false);
+    expect(changes).toEqual([
+      {
+        name: { previous: "ann", current: "anna" },
+        version: { previous: 1, current: 2 },
+      },
+    ]);
+  });
+
+  test("the echo of an own save changes nothing", async () => {
+    const user = new User({ id: "1" }, { sync: realtimeSync() });
+    user.fetch();
+    await flush();
+    let changes = 0;
+    user.on("change", () => {
+      changes++;
+    });
+
+    user.set({ age: 42 });
+    user.save();
+    await flush();
+
+    // the set and the version of the save
+    expect(changes).toBe(2);
+    expect(user.get("version")).toBe(2);
+  });
+
+  test("a new model follows its record once it is saved, until unbind", async () => {
+    const user = new User({ name: "bob" }, { sync: realtimeSync() });
+    await user.save();
+    const id = user.get("id") as string;
+
+    await other.patch(id, { age: 30 });
+    await other.patch("1", { name: "anna" });
+    await flush();
+    expect(user.get("age")).toBe(30);
+    expect(user.get("name")).toBe("bob");
+
+    user.unbind();
+    await other.patch(id, { age: 31 });
+    await flush();
+    expect(user.get("age")).toBe(30);
+  });
+
+  test("a collection adds the created and removes the deleted models", async () => {
+    const users = User.buildUserCollection(realtimeSync());
+    users.fetch();
+    await flush();
+
+    const created = await other.save({ name: "bob" });
+    await other.delete("1");
+    await flush();
+
+    expect(users.models.map((user) => user.get("id"))).toEqual([created.id]);
+    expect(users.models[0].get("name")).toBe("bob");
+  });
+
+  test("an unbound collection leaves the channel", async () => {
+    const users = User.buildUserCollection(realtimeSync());
+    users.fetch();
+    await flush();
+
+    users.unbind();
+    await other.save({ name: "bob" });
+    await flush();
+
+    expect(users.models).toEqual([]);
+  });
+});
@@ -0,0 +1,117 @@
+import { type Callback, Eventing, type Unsubscribe } from "./Eventing";
+import type { Page, QuerySpec } from "./Query";
+import type { HasId, RequestOptions, Sync } from "./Sync";
+
+// what the server broadcasts after every write, resource - e.g. "users"
+export type RealtimeEvent<T extends HasId> =
+  | { type: "created"; resource: string; id: string; data: T }
+  | { type: "updated"; resource: string; id: string; data: T }
+  | { type: "deleted"; resource: string; id: string };
+
+// the parts of a browser WebSocket the channel uses - a `ws` socket in node has them too
+export interface RealtimeSocket {
+  addEventListener(type: "open", listener: () => void): void;
+  addEventListener(
+    type: "message",
+    listener: (event: { data: unknown }) => void,
+  ): void;
+  close(): void;
+}
+
+// one socket for every subscription - topics are "users" (the collection) and "users/1" (one record)
+export class RealtimeChannel {
+  events: Eventing<{ [topic: string]: RealtimeEvent<HasId> }> = new Eventing<{
+    [topic: string]: RealtimeEvent<HasId>;
+  }>();
+  // resolves once the socket is connected, the events of earlier writes are missed
+  ready: Promise<void>;
+  private socket: RealtimeSocket;
+
+  constructor(
+    public url: string,
+    connect: (url: string) => RealtimeSocket = (url) => new WebSocket(url),
+  ) {
+    this.socket = connect(url);
+    this.ready = new Promise((resolve) => {
+      this.socket.addEventListener("open", () => resolve());
+    });
+    this.socket.addEventListener("message", ({ data }) => this.receive(data));
+  }
+
+  // without an id every event of the resource
+  subscribe = <T extends HasId>(
+    resource: string,
+    id: string | undefined,
+    callback: Callback<RealtimeEvent<T>>,
+  ): Unsubscribe => {
+    return this.events.on(
+      id === undefined ? resource : `${resource}/${id}`,
+      callback as Callback<RealtimeEvent<HasId>>,
+    );
+  };
+
+  close = (): void => {
+    this.socket.close();
+  };
+
+  private receive(data: unknown): void {
+    let event: RealtimeEvent<HasId>;
+    try {
+      event = JSON.parse(String(data)) as RealtimeEvent<HasId>;
+    } catch {
+      // not one of ours
+      return;
+    }
+    this.events.trigger(event.resource, event);
+    this.events.trigger(`${event.resource}/${event.id}`, event);
+  }
+}
+
+// wraps another adapter - reads and writes go to it, the channel tells what other clients changed
+// models and collections with this sync apply the changes themselves
+export class RealtimeSync<T extends HasId> implements Sync<T> {
+  constructor(
+    public remote: Sync<T>,
+    public channel: RealtimeChannel,
+    public resource: string = "users",
+  ) {}
+
+  subscribe = (
+    id: string,
+    callback: Callback<RealtimeEvent<T>>,
+  ): Unsubscribe => {
+    return this.channel.subscribe<T>(this.resource, id, callback);
+  };
+
+  subscribeAll = (callback: Callback<RealtimeEvent<T>>): Unsubscribe => {
+    return this.channel.subscribe<T>(this.resource, undefined, callback);
+  };
+
+  fetch(id: string, options?: RequestOptions): Promise<T> {
+    return this.remote.fetch(id, options);
+  }
+
+  fetchAll(options?: RequestOptions): Promise<T[]> {
+    return this.remote.fetchAll(options);
+  }
+
+  fetchWhere(filter: Partial<T>, options?: RequestOptions): Promise<T[]> {
+    return this.remote.fetchWhere(filter, options);
+  }
+
+  fetchQuery(query: QuerySpec<T>, options?: RequestOptions): Promise<Page<T>> {
+    return this.remote.fetchQuery(query, options);
+  }
+
+  save(data: T, options?: RequestOptions): Promise<T> {
+    return this.remote.save(data, options);
+  }
+
+  patch(id: string, changes: Partial<T>, options?: RequestOptions): Promise<T> {
+    return this.remote.patch(id, changes, options);
+  }
+
+  delete(id: string, options?: RequestOptions): Promise<void> {
+    return this.remote.delete(id, options);
+  }
+}
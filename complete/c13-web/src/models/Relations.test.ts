@@ -0,0 +1,107 @@
+import { describe, expect, test } from "vitest";
+import { MemorySync } from "./MemorySync";
+import { buildModel } from "./Model";
+import { belongsTo, hasMany, hasOne } from "./Relations";
+import type { RequestOptions } from "./Sync";
+
+interface AuthorProps {
+  id?: string;
+  name?: string;
+}
+
+interface PostProps {
+  id?: string;
+  title?: string;
+  authorId?: string;
+}
+
+interface ProfileProps {
+  id?: string;
+  bio?: string;
+  authorId?: string;
+}
+
+const authors = new MemorySync<AuthorProps>([{ id: "1", name: "a" }]);
+const posts = new MemorySync<PostProps>([
+  { id: "p1", title: "first", authorId: "1" },
+  { id: "p2", title: "second", authorId: "2" },
+  { id: "p3", title: "third", authorId: "1" },
+]);
+const profiles = new MemorySync<ProfileProps>([
+  { id: "x", bio: "hello", authorId: "1" },
+]);
+
+class Author extends buildModel<AuthorProps>({
+  url: "http://localhost:3000/authors",
+}) {
+  posts = hasMany(this, () => Post, "authorId", { sync: posts });
+  profile = hasOne(this, () => Profile, "authorId", { sync: profiles });
+}
+
+class Post extends buildModel<PostProps>({
+  url: "http://localhost:3000/posts",
+}) {
+  author = belongsTo(this, () => Author, "authorId", { sync: authors });
+}
+
+class Profile extends buildModel<ProfileProps>({
+  url: "http://localhost:3000/profiles",
+}) {}
+
+describe("relations", () => {
+  test("hasMany loads the records with the foreign key", async () => {
+    const author = new Author({ id: "1" }, { sync: authors });
+
+    const loaded = await author.posts.load();
+
+    expect(loaded.map((post) => post.get("title"))).toEqual(["first", "third"]);
+    expect(loaded[0]).toBeInstanceOf(Post);
+  });
+
+  test("hasOne loads the first record with the foreign key", async () => {
+    const author = new Author({ id: "1" }, { sync: authors });
+
+    expect((await author.profile.load())?.get("bio")).toBe("hello");
+  });
+
+  test("belongsTo loads the record of the foreign key", async () => {
+    const post = new Post({ id: "p1", authorId: "1" }, { sync: posts });
+
+    expect((await post.author.load())?.get("name")).toBe("a");
+  });
+
+  test("loads lazily and only once", async () => {
+    const author = new Author({ id: "1" }, { sync: authors });
+    expect(author.posts.value).toBeUndefined();
+
+    const first = await author.posts.load();
+
+    expect(await author.posts.load()).toBe(first);
+    expect(author.posts.value).toBe(first);
+  });
+
+  test("takes the data included by the fetch", async () => {
+    const requests: RequestOptions[] = [];
+    // json-server answers ?_embed=posts with the posts in the record
+    class EmbeddingSync extends MemorySync<AuthorProps> {
+      async fetch(id: string, options: RequestOptions = {}) {
+        requests.push(options);
+        const author = await super.fetch(id);
+        return { ...author, posts: [{ id: "p1", title: "first" }] };
+      }
+    }
+    const author = new Author(
+      { id: "1" },
+      { sync: new EmbeddingSync([{ id: "1", name: "a" }]) },
+    );
+
+    author.fetch({ include: ["posts"] });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(requests[0].params).toEqual({ _embed: ["posts"] });
+    expect(author.attributes.getAll()).toEqual({ id: "1", name: "a" });
+    expect(author.posts.value?.map((post) => post.get("title"))).toEqual([
+      "first",
+    ]);
+  });
+});
@@ -0,0 +1,220 @@
+import { ApiSync } from "./ApiSync";
+import { type IdentityMap, instanceOf } from "./IdentityMap";
+import type { Model, ModelDefinition, ModelOptions } from "./Model";
+import type { HasId, RequestOptions, Sync } from "./Sync";
+
+// a class made by buildModel - `() => Post` is passed so related classes can refer to each other
+export interface ModelClass<R extends HasId, M extends Model<R>> {
+  new (attrs?: R, options?: ModelOptions<R>): M;
+  definition: ModelDefinition<R>;
+  identityMap: IdentityMap<Model<R>>;
+}
+
+export interface RelationOptions<R extends HasId> {
+  // the adapter of the related resource, its rest api by default
+  sync?: Sync<R>;
+  // hasMany only - get /users/1/posts instead of /posts?userId=1
+  nested?: boolean;
+}
+
+// last segment of the resource url - http://localhost:3000/posts => posts
+const resourceName = (url: string): string => {
+  return url.replace(/\/+$/, "").split("/").pop() || url;
+};
+
+// what the owner model uses of its relations - the data included in its fetch
+export interface OwnedRelation {
+  readonly param: "_embed" | "_expand";
+  readonly key: string;
+  embed(json: unknown): void;
+}
+
+// T - the owner props, R - the related props, M - the related model, V - the loaded value
+export abstract class Relation<
+  T extends HasId,
+  R extends HasId,
+  M extends Model<R>,
+  V,
+> implements OwnedRelation {
+  // _embed or _expand - the json-server parameter that includes the relation in a fetch
+  abstract readonly param: "_embed" | "_expand";
+  private loaded?: { value: V };
+  private loading?: Promise<V>;
+
+  constructor(
+    protected owner: Model<T>,
+    protected target: () => ModelClass<R, M>,
+    protected foreignKey: string,
+    protected options: RelationOptions<R> = {},
+  ) {
+    owner.relations.push(this);
+  }
+
+  // the field of a json-server response that holds the included data
+  abstract get key(): string;
+
+  // undefined until loaded
+  get value(): V | undefined {
+    return this.loaded?.value;
+  }
+
+  // fetched on first use, then cached - reload() fetches again
+  load = (options?: RequestOptions): Promise<V> => {
+    if (this.loaded) {
+      return Promise.resolve(this.loaded.value);
+    }
+    if (!this.loading) {
+      this.loading = this.fetch(options)
+        .then((value: V) => {
+          this.loaded = { value };
+          return value;
+        })
+        .finally(() => {
+          this.loading = undefined;
+        });
+    }
+    return this.loading;
+  };
+
+  reload = (options?: RequestOptions): Promise<V> => {
+    this.loaded = undefined;
+    return this.load(options);
+  };
+
+  // data that came along with the owner through _embed or _expand
+  embed(json: unknown): void {
+    this.loaded = { value: this.fromJson(json) };
+  }
+
+  protected abstract fetch(options?: RequestOptions): Promise<V>;
+
+  protected abstract fromJson(json: unknown): V;
+
+  protected sync(): Sync<R> {
+    return this.options.sync || new ApiSync<R>(this.target().definition.url);
+  }
+
+  protected build(json: R): M {
+    return instanceOf(this.target(), json, { sync: this.sync() });
+  }
+}
+
+// user.posts - posts with posts.userId === user.id
+export class HasMany<
+  T extends HasId,
+  R extends HasId,
+  M extends Model<R>,
+> extends Relation<T, R, M, M[]> {
+  readonly param = "_embed";
+
+  get key(): string {
+    return resourceName(this.target().definition.url);
+  }
+
+  protected async fetch(options?: RequestOptions): Promise<M[]> {
+    const id = this.owner.get("id");
+    if (!id) {
+      return [];
+    }
+    const records = this.options.nested
+      ? await new ApiSync<R>(
+          `${this.owner.definition.url}/${id}/${this.key}`,
+        ).fetchAll(options)
+      : await this.sync().fetchWhere(
+          { [this.foreignKey]: id } as Partial<R>,
+          options,
+        );
+    return records.map((record) => this.build(record));
+  }
+
+  protected fromJson(json: unknown): M[] {
+    return (json as R[]).map((record) => this.build(record));
+  }
+}
+
+// user.profile - the one profile with profile.userId === user.id
+export class HasOne<
+  T extends HasId,
+  R extends HasId,
+  M extends Model<R>,
+> extends Relation<T, R, M, M | undefined> {
+  readonly param = "_embed";
+
+  get key(): string {
+    return resourceName(this.target().definition.url);
+  }
+
+  protected async fetch(options?: RequestOptions): Promise<M | undefined> {
+    const id = this.owner.get("id");
+    if (!id) {
+      return undefined;
+    }
+    const [record] = await this.sync().fetchWhere(
+      { [this.foreignKey]: id } as Partial<R>,
+      options,
+    );
+    return record && this.build(record);
+  }
+
+  // json-server embeds a list
+  protected fromJson(json: unknown): M | undefined {
+    const [record] = json as R[];
+    return record && this.build(record);
+  }
+}
+
+// post.user - the user with user.id === post.userId
+export class BelongsTo<
+  T extends HasId,
+  R extends HasId,
+  M extends Model<R>,
+> extends Relation<T, R, M, M | undefined> {
+  readonly param = "_expand";
+
+  // userId => user
+  get key(): string {
+    return this.foreignKey.replace(/Id$/, "");
+  }
+
+  protected async fetch(options?: RequestOptions): Promise<M | undefined> {
+    const id = this.owner.get(this.foreignKey as keyof T);
+    if (typeof id !== "string") {
+      return undefined;
+    }
+    return this.build(await this.sync().fetch(id, options));
+  }
+
+  protected fromJson(json: unknown): M | undefined {
+    return json ? this.build(json as R) : undefined;
+  }
+}
+
+// declared as fields of the model class:
+// posts = hasMany(this, () => Post, "userId");
+export const hasMany = <T extends HasId, R extends HasId, M extends Model<R>>(
+  owner: Model<T>,
+  target: () => ModelClass<R, M>,
+  foreignKey: keyof R & string,
+  options?: RelationOptions<R>,
+): HasMany<T, R, M> => {
+  return new HasMany(owner, target, foreignKey, options);
+};
+
+export const hasOne = <T extends HasId, R extends HasId, M extends Model<R>>(
+  owner: Model<T>,
+  target: () => ModelClass<R, M>,
+  foreignKey: keyof R & string,
+  options?: RelationOptions<R>,
+): HasOne<T, R, M> => {
+  return new HasOne(owner, target, foreignKey, options);
+};
+
+// user = belongsTo(this, () => User, "userId");
+export const belongsTo = <T extends HasId, R extends HasId, M extends Model<R>>(
+  owner: Model<T>,
+  target: () => ModelClass<R, M>,
+  foreignKey: keyof T & string,
+  options?: RelationOptions<R>,
+): BelongsTo<T, R, M> => {
+  return new BelongsTo(owner, target, foreignKey, options);
+};
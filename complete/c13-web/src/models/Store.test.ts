@@ -0,0 +1,150 @@
+import { beforeEach, describe, expect, test } from "vitest";
+import { MemorySync } from "./MemorySync";
+import { Store, type StoreState, createSelector } from "./Store";
+import { User, type UserProps } from "./User";
+
+type AppResources = { users: UserProps };
+
+const selectUsers = (state: StoreState<AppResources>) => state.users || {};
+
+let store: Store<AppResources>;
+
+beforeEach(() => {
+  store = new Store<AppResources>();
+  User.identityMap.clear();
+});
+
+describe("Store", () => {
+  test("keeps the records normalized by resource and id", () => {
+    store.upsert("users", { id: "1", name: "a" });
+    store.upsert("users", { id: "2", name: "b" });
+    store.remove("users", "1");
+
+    expect(store.getState()).toEqual({
+      users: { "2": { id: "2", name: "b" } },
+    });
+  });
+
+  test("selectors are memoized on their inputs", () => {
+    let computed = 0;
+    const selectAdults = createSelector([selectUsers], (users) => {
+      computed++;
+      return Object.values(users).filter((user) => (user.age ?? 0) >= 18);
+    });
+    store.upsert("users", { id: "1", age: 20 });
+
+    const adults = store.select(selectAdults);
+    expect(store.select(selectAdults)).toBe(adults);
+    expect(adults).toEqual([{ id: "1", age: 20 }]);
+    expect(computed).toBe(1);
+  });
+
+  test("subscribers are called only when their slice changes", () => {
+    store.upsert("users", { id: "1", name: "a" });
+    store.upsert("users", { id: "2", name: "b" });
+    const names: (string | undefined)[] = [];
+    store.subscribe(
+      (state) => state.users["1"]?.name,
+      (name) => {
+        names.push(name);
+      },
+    );
+
+    store.upsert("users", { id: "2", name: "c" });
+    store.upsert("users", { id: "1", name: "d" });
+
+    expect(names).toEqual(["d"]);
+  });
+
+  test("follows connected models, a batch notifies once", () => {
+    const sync = new MemorySync<UserProps>();
+    const a = new User({ id: "1", name: "a" }, { sync });
+    const b = new User({ id: "2", name: "b" }, { sync });
+    store.connect("users", a);
+    store.connect("users", b);
+    const calls: number[] = [];
+    store.subscribe(selectUsers, (users) => {
+      calls.push(Object.keys(users).length);
+    });
+
+    store.batch(() => {
+      a.set({ age: 1 });
+      b.set({ age: 2 });
+    });
+
+    expect(calls).toEqual([2]);
+    expect(store.getState().users["2"]).toEqual({ id: "2", name: "b", age: 2 });
+  });
+
+  test("removes a destroyed model", async () => {
+    const sync = new MemorySync<UserProps>([{ id: "1", name: "a" }]);
+    const user = new User({ id: "1", name: "a" }, { sync });
+    store.connect("users", user);
+
+    await user.destroy();
+
+    expect(store.getState().users).toEqual({});
+  });
+
+  test("loads the models of a collection", async () => {
+    const sync = new MemorySync<UserProps>([
+      { id: "1", name: "a" },
+      { id: "2", name: "b" },
+    ]);
+    const users = User.buildUserCollection(sync);
+    store.connectCollection("users", users);
+    const calls: number[] = [];
+    store.subscribe(selectUsers, (users) => {
+      calls.push(Object.keys(users).length);
+    });
+
+    await new Promise((resolve) => {
+      users.on("change", resolve);
+      users.fetch();
+    });
+
+    expect(calls).toEqual([2]);
+  });
+
+  test("removes the models that left the collection", async () => {
+    const sync = new MemorySync<UserProps>([
+      { id: "1", name: "a" },
+      { id: "2", name: "b" },
+    ]);
+    const users = User.buildUserCollection(sync);
+    store.connectCollection("users", users);
+    await new Promise((resolve) => {
+      users.on("change", resolve);
+      users.fetch();
+    });
+
+    users.remove(users.models[0]);
+
+    expect(Object.keys(store.getState().users)).toEqual(["2"]);
+  });
+
+  test("a model of a collection that did not change keeps its record", async () => {
+    const sync = new MemorySync<UserProps>([
+      { id: "1", name: "a" },
+      { id: "2", name: "b" },
+    ]);
+    const users = User.buildUserCollection(sync);
+    store.connectCollection("users", users);
+    await new Promise((resolve) => {
+      users.on("change", resolve);
+      users.fetch();
+    });
+    const calls: (UserProps | undefined)[] = [];
+    store.subscribe(
+      (state) => state.users["1"],
+      (user) => {
+        calls.push(user);
+      },
+    );
+
+    users.models[1].set({ age: 5 });
+
+    expect(calls).toEqual([]);
+    expect(store.getState().users["2"].age).toBe(5);
+  });
+});
@@ -0,0 +1,193 @@
+import type { Collection } from "./Collection";
+import type { Unsubscribe } from "./Eventing";
+import type { Model } from "./Model";
+import type { HasId } from "./Sync";
+
+// resource => the record type of the resource, e.g. { users: UserProps; posts: PostProps }
+export type Resources = { [resource: string]: HasId };
+
+// TODO: mapped type - normalized state, resource => id => record
+export type StoreState<S extends Resources> = {
+  [R in keyof S]: { [id: string]: S[R] };
+};
+
+export type Selector<S extends Resources, V> = (state: StoreState<S>) => V;
+
+// a selector of any state - every selector is one, the state of the first input is the one of the result
+type Input = (state: never) => unknown;
+
+// the value is recomputed only when one of the inputs returned something else
+// createSelector([selectUsers], (users) => Object.values(users).filter(...))
+export const createSelector = <F extends [Input, ...Input[]], V>(
+  inputs: [...F],
+  // TODO: mapped tuple type - the return type of every input, in order
+  combine: (...values: { [K in keyof F]: ReturnType<F[K]> }) => V,
+): ((state: Parameters<F[0]>[0]) => V) => {
+  let last: { values: unknown[]; result: V } | undefined;
+  return (state) => {
+    const values = inputs.map((input) =>
+      (input as (state: unknown) => unknown)(state),
+    );
+    if (last && last.values.every((value, i) => value === values[i])) {
+      return last.result;
+    }
+    const result = combine(...(values as { [K in keyof F]: ReturnType<F[K]> }));
+    last = { values, result };
+    return result;
+  };
+};
+
+// the same keys with the same values
+const shallowEqual = (a: object | undefined, b: object): boolean => {
+  if (!a) {
+    return false;
+  }
+  const entries = Object.entries(a);
+  const other = new Map(Object.entries(b));
+  return (
+    entries.length === other.size &&
+    entries.every(
+      ([key, value]) => other.has(key) && Object.is(value, other.get(key)),
+    )
+  );
+};
+
+interface Subscription<S extends Resources> {
+  selector: Selector<S, unknown>;
+  listener: (value: unknown, previous: unknown) => void;
+  equals: (a: unknown, b: unknown) => boolean;
+  value: unknown;
+}
+
+// one immutable state for many models - a write replaces the record, its table and the state
+// so an unchanged slice keeps its identity and its subscribers are not called
+export class Store<S extends Resources> {
+  private state: StoreState<S>;
+  private subscriptions = new Set<Subscription<S>>();
+  // open batch() calls, the subscribers are called when the outermost one ends
+  private depth = 0;
+
+  constructor(initial: Partial<StoreState<S>> = {}) {
+    this.state = { ...initial } as StoreState<S>;
+  }
+
+  getState = (): StoreState<S> => {
+    return this.state;
+  };
+
+  select = <V>(selector: Selector<S, V>): V => {
+    return selector(this.state);
+  };
+
+  // listener is called with the selected value whenever it is not equal to the last one
+  subscribe = <V>(
+    selector: Selector<S, V>,
+    listener: (value: V, previous: V) => void,
+    equals: (a: V, b: V) => boolean = Object.is,
+  ): Unsubscribe => {
+    const subscription: Subscription<S> = {
+      selector,
+      listener: listener as (value: unknown, previous: unknown) => void,
+      equals: equals as (a: unknown, b: unknown) => boolean,
+      value: selector(this.state),
+    };
+    this.subscriptions.add(subscription);
+    return () => {
+      this.subscriptions.delete(subscription);
+    };
+  };
+
+  // the writes of callback notify once
+  batch = (callback: () => void): void => {
+    this.depth++;
+    try {
+      callback();
+    } finally {
+      this.depth--;
+    }
+    this.notify();
+  };
+
+  // a record with the same fields is kept, so are its table and the state
+  upsert = <R extends keyof S>(resource: R, record: S[R]): void => {
+    const { id } = record;
+    if (id === undefined || shallowEqual(this.state[resource]?.[id], record)) {
+      return;
+    }
+    this.state = {
+      ...this.state,
+      [resource]: { ...this.state[resource], [id]: { ...record } },
+    };
+    this.notify();
+  };
+
+  remove = <R extends keyof S>(resource: R, id: string): void => {
+    if (!this.state[resource]?.[id]) {
+      return;
+    }
+    const { [id]: removed, ...table } = this.state[resource];
+    this.state = { ...this.state, [resource]: table };
+    this.notify();
+  };
+
+  // the store follows the model - its fields on every change, removed on destroy
+  connect = <R extends keyof S>(
+    resource: R,
+    model: Model<S[R], unknown>,
+  ): Unsubscribe => {
+    this.upsert(resource, model.attributes.getAll());
+    const unsubscribes = [
+      model.on("change", () =>
+        this.upsert(resource, model.attributes.getAll()),
+      ),
+      model.on("destroy", (data) => {
+        if (data.id !== undefined) {
+          this.remove(resource, data.id);
+        }
+      }),
+    ];
+    return () => unsubscribes.forEach((unsubscribe) => unsubscribe());
+  };
+
+  // every model the collection loads is put into the store, one notification per load
+  // the records of the models that left the collection are removed
+  connectCollection = <R extends keyof S, M extends Model<S[R], unknown>>(
+    resource: R,
+    collection: Collection<M, S[R]>,
+  ): Unsubscribe => {
+    let ids = new Set<string>();
+    return collection.on("change", (models) => {
+      const previous = ids;
+      ids = new Set<string>();
+      this.batch(() => {
+        for (const model of models) {
+          const data = model.attributes.getAll();
+          this.upsert(resource, data);
+          if (data.id !== undefined) {
+            ids.add(data.id);
+          }
+        }
+        for (const id of previous) {
+          if (!ids.has(id)) {
+            this.remove(resource, id);
+          }
+        }
+      });
+    });
+  };
+
+  private notify(): void {
+    if (this.depth > 0) {
+      return;
+    }
+    for (const subscription of [...this.subscriptions]) {
+      const value = subscription.selector(this.state);
+      if (subscription.equals(value, subscription.value)) {
+        continue;
+      }
+      const previous = subscription.value;
+      subscription.value = value;
+      subscription.listener(value, previous);
+    }
+  }
+}
@@ -0,0 +1,126 @@
+// @vitest-environment jsdom
+import { mkdtemp, readdir, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, test, vi } from "vitest";
+import { FileSync } from "./FileSync";
+import { LocalStorageSync } from "./LocalStorageSync";
+import { MemorySync } from "./MemorySync";
+import { ConflictError, type Sync } from "./Sync";
+import type { UserProps } from "./User";
+
+let dir: string;
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "file-sync-"));
+  window.localStorage.clear();
+});
+
+afterEach(async () => {
+  await rm(dir, { recursive: true, force: true });
+});
+
+// the same contract for every adapter that runs without a server
+describe.each([
+  ["MemorySync", () => new MemorySync<UserProps>()],
+  ["FileSync", () => new FileSync<UserProps>(join(dir, "db.json"))],
+  ["LocalStorageSync", () => new LocalStorageSync<UserProps>()],
+])("%s", (_, create: () => Sync<UserProps>) => {
+  let sync: Sync<UserProps>;
+
+  beforeEach(() => {
+    sync = create();
+  });
+
+  test("save assigns an id and bumps the version", async () => {
+    const created = await sync.save({ name: "a" });
+    const updated = await sync.save({ ...created, name: "b" });
+
+    expect(created).toEqual({ id: expect.any(String), name: "a", version: 1 });
+    expect(updated).toEqual({ id: created.id, name: "b", version: 2 });
+    expect(await sync.fetchAll()).toEqual([updated]);
+  });
+
+  test("a new record never gets the id of another one", async () => {
+    const random = vi.spyOn(Math, "random").mockReturnValue(1 / 0x10000);
+    try {
+      await sync.save({ name: "a" });
+      await sync.save({ name: "b" });
+    } finally {
+      random.mockRestore();
+    }
+
+    const ids = (await sync.fetchAll()).map((record) => record.id);
+    expect(ids[0]).toBe("0001");
+    expect(new Set(ids).size).toBe(2);
+  });
+
+  test("fetch, fetchWhere and fetchQuery", async () => {
+    await sync.save({ id: "1", name: "a", age: 30 });
+    await sync.save({ id: "2", name: "b", age: 40 });
+
+    expect(await sync.fetch("2")).toMatchObject({ name: "b" });
+    await expect(sync.fetch("9")).rejects.toThrow("Record 9 not found");
+    expect(await sync.fetchWhere({ age: 30 })).toMatchObject([{ id: "1" }]);
+    expect(
+      await sync.fetchQuery({
+        where: [{ field: "age", op: ">", value: 30 }],
+        sort: [],
+      }),
+    ).toMatchObject({ records: [{ id: "2" }], total: 1 });
+  });
+
+  test("patch changes and removes fields", async () => {
+    await sync.save({ id: "1", name: "a", age: 30 });
+
+    expect(await sync.patch("1", { name: "b", age: undefined })).toEqual({
+      id: "1",
+      name: "b",
+      version: 2,
+    });
+    await expect(sync.patch("9", { name: "b" })).rejects.toThrow();
+  });
+
+  test("a write against an older version is a conflict", async () => {
+    await sync.save({ id: "1", name: "a" });
+    await sync.save({ id: "1", name: "b" });
+
+    await expect(
+      sync.save({ id: "1", name: "c" }, { expectedVersion: 1 }),
+    ).rejects.toBeInstanceOf(ConflictError);
+    await expect(
+      sync.patch("1", { name: "c" }, { expectedVersion: 1 }),
+    ).rejects.toBeInstanceOf(ConflictError);
+  });
+
+  test("delete", async () => {
+    await sync.save({ id: "1", name: "a" });
+
+    await sync.delete("1");
+
+    expect(await sync.fetchAll()).toEqual([]);
+    await expect(sync.delete("1")).rejects.toThrow();
+  });
+});
+
+describe("FileSync writes", () => {
+  test("concurrent writes are all stored", async () => {
+    const file = join(dir, "db.json");
+    const users = new FileSync<UserProps>(file);
+    const posts = new FileSync<{ id?: string }>(file, "posts");
+
+    await Promise.all([
+      users.save({ id: "1", name: "a" }),
+      users.save({ id: "2", name: "b" }),
+      posts.save({ id: "p1" }),
+      users.patch("1", { age: 1 }).catch(() => undefined),
+    ]);
+
+    expect(await users.fetchAll()).toEqual([
+      { id: "1", name: "a", age: 1, version: 2 },
+      { id: "2", name: "b", version: 1 },
+    ]);
+    expect(await posts.fetchAll()).toEqual([{ id: "p1", version: 1 }]);
+    expect(await readdir(dir)).toEqual(["db.json"]);
+  });
+});
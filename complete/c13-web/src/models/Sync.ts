@@ -1,33 +1,132 @@
-import axios, { type AxiosPromise } from "axios";
+import type { Page, QuerySpec } from "./Query";
 
 export const rootUrl = "http://localhost:3000/users";
 
-interface HasId {
+export interface HasId {
   id?: string;
+  // bumped by the adapter on every save, for optimistic concurrency
+  version?: number;
 }
 
-// generic constraint
-export class Sync<T extends HasId> {
-  constructor(public baseUrl: string = rootUrl) {}
+// timeout - no answer in time, network - no answer at all, http - an error status
+// conflict - the record was changed by someone else since it was fetched
+export type SyncErrorKind =
+  "timeout" | "network" | "http" | "aborted" | "conflict" | "unknown";
+
+// reason - the original error thrown by the adapter
+// kind and status are taken over when the reason is a SyncError itself
+export class SyncError extends Error {
+  constructor(
+    message: string,
+    public readonly reason?: unknown,
+    public readonly kind: SyncErrorKind = reason instanceof SyncError
+      ? reason.kind
+      : "unknown",
+    public readonly status: number | undefined = reason instanceof SyncError
+      ? reason.status
+      : undefined,
+  ) {
+    super(message);
+    this.name = "SyncError";
+  }
+}
 
-  fetch(id: string): AxiosPromise {
-    console.log("=============fetch", id, this.baseUrl);
-    return axios.get(`${this.baseUrl}/${id}`);
+// remote - the current server copy of the record
+export class ConflictError<T extends HasId> extends SyncError {
+  constructor(public readonly remote: T) {
+    super(
+      `Record ${remote.id} was changed to version ${remote.version}`,
+      undefined,
+      "conflict",
+      409,
+    );
+    this.name = "ConflictError";
   }
+}
+
+export interface RequestOptions {
+  // cancel the request, including the retries still to come
+  signal?: AbortSignal;
+  // ms per attempt
+  timeout?: number;
+  // save only when the server copy still has this version
+  expectedVersion?: number;
+  // extra query parameters of the rest api, e.g. { _embed: "posts" }
+  params?: { [key: string]: string | string[] };
+}
 
-  // save - if id put, else post
+// persistence adapter - where the models are fetched from and saved to
+// generic constraint
+export interface Sync<T extends HasId> {
+  fetch(id: string, options?: RequestOptions): Promise<T>;
+  fetchAll(options?: RequestOptions): Promise<T[]>;
+  // the records whose fields equal the filter, e.g. { userId: "1" }
+  fetchWhere(filter: Partial<T>, options?: RequestOptions): Promise<T[]>;
+  // one page of the records matching the query, with the total of all pages
+  fetchQuery(query: QuerySpec<T>, options?: RequestOptions): Promise<Page<T>>;
+  // save - update when there is an id, else create and resolve with the new id
+  save(data: T, options?: RequestOptions): Promise<T>;
+  // update only the changed fields of an existing record, an undefined value removes the field
+  patch(id: string, changes: Partial<T>, options?: RequestOptions): Promise<T>;
+  delete(id: string, options?: RequestOptions): Promise<void>;
+}
 
-  save(data: T): AxiosPromise {
-    const { id } = data;
+// json-server style id, 4 hex characters by default
+export const generateId = (digits: number = 4): string => {
+  return Math.floor(Math.random() * 16 ** digits)
+    .toString(16)
+    .padStart(digits, "0");
+};
 
-    if (id) {
-      //put
+export const matches = <T extends object>(
+  record: T,
+  filter: Partial<T>,
+): boolean => {
+  return (Object.keys(filter) as (keyof T)[]).every(
+    (key) => record[key] === filter[key],
+  );
+};
 
-      return axios.put(`${this.baseUrl}/${id}`, data);
-    } else {
-      //post
+// copy of a record with a new id if it has none yet - one that none of the records has
+// the id gets a digit longer after every 16 taken ones in a row
+export const withId = <T extends HasId>(data: T, records: T[]): T => {
+  if (data.id) {
+    return { ...data };
+  }
+  const taken = new Set(records.map((record) => record.id));
+  let id = generateId();
+  for (let attempt = 1; taken.has(id); attempt++) {
+    id = generateId(4 + Math.floor(attempt / 16));
+  }
+  return { ...data, id };
+};
 
-      return axios.post(this.baseUrl, data);
-    }
+// check the expected version against the stored record, then bump the version
+// records - the stored ones, a new record gets an id none of them has
+export const nextVersion = <T extends HasId>(
+  data: T,
+  remote: T | undefined,
+  options: RequestOptions,
+  records: T[] = [],
+): T => {
+  if (
+    remote &&
+    options.expectedVersion !== undefined &&
+    remote.version !== options.expectedVersion
+  ) {
+    throw new ConflictError(remote);
   }
-}
+  return { ...withId(data, records), version: (remote?.version ?? 0) + 1 };
+};
+
+// the adapter and the ones it wraps through `remote`, outermost first
+// e.g. CachedSync(OfflineSync(ApiSync)) => [CachedSync, OfflineSync, ApiSync]
+export const unwrap = <T extends HasId>(sync: Sync<T>): Sync<T>[] => {
+  const adapters: Sync<T>[] = [];
+  let current: Sync<T> | undefined = sync;
+  while (current && !adapters.includes(current)) {
+    adapters.push(current);
+    current = (current as { remote?: Sync<T> }).remote;
+  }
+  return adapters;
+};
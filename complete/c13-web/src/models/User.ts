@@ -1,60 +1,66 @@
-import { AxiosResponse } from "axios";
-import { Attributes } from "./Attributes";
-import { Callback, Eventing } from "./Eventing";
-import { Sync } from "./Sync";
+import { type ModelEvents } from "./Eventing";
+import { ApiSync } from "./ApiSync";
+import { type Sync, rootUrl } from "./Sync";
+import { Collection } from "./Collection";
+import { type ModelOptions, buildModel } from "./Model";
+import { type Schema } from "./Validation";
+import { type Codecs, integerCodec, numberCodec } from "./Codec";
+import { type ComputedDefinitions } from "./Computed";
 export interface UserProps {
   id?: string;
   name?: string;
   age?: number;
+  version?: number;
 }
-export class User {
-  public events: Eventing = new Eventing();
-  public sync: Sync<UserProps> = new Sync<UserProps>();
-  public attributes: Attributes<UserProps>;
 
-  constructor(attrs: UserProps) {
-    this.attributes = new Attributes<UserProps>(attrs);
-  }
-  //use getter to pass through the call
-  get on() {
-    return this.events.on;
-  }
+export const userSchema: Schema<UserProps> = {
+  id: { type: "string" },
+  version: { type: "number" },
+  name: { type: "string", required: true, min: 1, max: 50 },
+  age: {
+    type: "number",
+    min: 0,
+    max: 150,
+    checks: [{ test: Number.isInteger, message: "must be a whole number" }],
+  },
+};
 
-  get trigger() {
-    return this.events.trigger;
-  }
-  get get() {
-    return this.attributes.get;
-  }
+// db.json has ages like "1234" too
+export const userCodecs: Codecs<UserProps> = {
+  version: integerCodec,
+  age: numberCodec,
+};
 
-  set(update: UserProps): void {
-    this.attributes.set(update);
-    this.trigger("change");
-  }
+// derived from the fields, read through get("isAdult") - never saved
+export interface UserComputed {
+  isAdult: boolean;
+  displayName: string;
+}
 
-  fetch = (): void => {
-    const id = this.get("id");
-    if (typeof id !== "string") {
-      throw new Error("Cannot fetch without an id");
-    }
+export const userComputed: ComputedDefinitions<UserProps, UserComputed> = {
+  isAdult: { deps: ["age"], compute: ({ age }) => (age ?? 0) >= 18 },
+  displayName: { deps: ["name"], compute: ({ name }) => name || "anonymous" },
+};
 
-    this.sync.fetch(id).then((response: AxiosResponse): void => {
-      this.set(response.data);
-    });
-  };
+// change - ChangeSet<UserProps>, save - UserProps, error - SyncError, invalid - FieldErrors<UserProps>, conflict - Conflict<UserProps>
+// computed - ChangeSet<UserComputed>
+export type UserEvents = ModelEvents<UserProps, UserComputed>;
 
-  print = (): void => {
-    console.log(this.attributes);
-  };
+export type UserOptions = ModelOptions<UserProps>;
 
-  save(): void {
-    this.sync
-      .save(this.attributes.getAll())
-      .then((response: AxiosResponse): void => {
-        this.trigger("save");
-      })
-      .catch(() => {
-        this.trigger("error");
-      });
+export class User extends buildModel<UserProps, UserComputed>({
+  url: rootUrl,
+  schema: userSchema,
+  codecs: userCodecs,
+  computed: userComputed,
+  name: "user",
+}) {
+  // the models share the adapter of the collection
+  static buildUserCollection(
+    sync: Sync<UserProps> = new ApiSync<UserProps>(),
+  ): Collection<User, UserProps> {
+    return new Collection<User, UserProps>(sync, (json: UserProps) =>
+      User.instance(json, { sync }),
+    );
   }
 }
@@ -0,0 +1,83 @@
+import { describe, expect, test } from "vitest";
+import { Attributes } from "./Attributes";
+import { User, type UserProps, userSchema } from "./User";
+import { type Schema, validate } from "./Validation";
+
+describe("validate", () => {
+  test("type", () => {
+    expect(validate(userSchema, { name: 1 } as unknown as UserProps)).toEqual({
+      name: ["must be a string"],
+    });
+    expect(validate(userSchema, { name: "a", age: NaN })).toEqual({
+      age: ["must be a number"],
+    });
+  });
+
+  test("required", () => {
+    expect(validate(userSchema, {})).toEqual({ name: ["is required"] });
+    expect(validate(userSchema, { name: "" })).toEqual({
+      name: ["is required"],
+    });
+  });
+
+  test("min and max of numbers and string lengths", () => {
+    expect(validate(userSchema, { name: "a".repeat(51), age: -1 })).toEqual({
+      name: ["must be at most 50 characters"],
+      age: ["must be at least 0"],
+    });
+    expect(validate(userSchema, { name: "a", age: 151 })).toEqual({
+      age: ["must be at most 150"],
+    });
+  });
+
+  test("checks get the value and the other fields", () => {
+    const schema: Schema<UserProps> = {
+      age: {
+        checks: [
+          { test: Number.isInteger, message: "must be a whole number" },
+          {
+            test: (age, { name }) => name !== "kid" || age < 18,
+            message: "too old",
+          },
+        ],
+      },
+    };
+
+    expect(validate(schema, { name: "kid", age: 20.5 })).toEqual({
+      age: ["must be a whole number", "too old"],
+    });
+  });
+
+  test("only the given fields", () => {
+    expect(validate(userSchema, { age: -1 }, ["age"])).toEqual({
+      age: ["must be at least 0"],
+    });
+  });
+});
+
+describe("set", () => {
+  test("applies nothing when one field is invalid", () => {
+    const attributes = new Attributes<UserProps>(
+      { name: "a", age: 1 },
+      userSchema,
+    );
+
+    const errors = attributes.set({ name: "b", age: -1 });
+
+    expect(errors).toEqual({ age: ["must be at least 0"] });
+    expect(attributes.getAll()).toEqual({ name: "a", age: 1 });
+  });
+
+  test("a model triggers invalid instead of change", () => {
+    const user = new User({ name: "a", age: 1 });
+    const events: string[] = [];
+    user.on("*", ({ eventName }) => {
+      events.push(eventName);
+    });
+
+    user.set({ age: -1 });
+    user.set({ age: 2 });
+
+    expect(events).toEqual(["invalid", "change"]);
+  });
+});
@@ -0,0 +1,96 @@
+export type FieldType = "string" | "number" | "boolean";
+
+// a custom predicate, `message` is reported when `test` returns false
+export interface Check<V, T> {
+  test: (value: V, attrs: T) => boolean;
+  message: string;
+}
+
+// min/max - the range of a number, or the length of a string
+export interface FieldRule<V, T> {
+  type?: FieldType;
+  required?: boolean;
+  min?: number;
+  max?: number;
+  checks?: Check<NonNullable<V>, T>[];
+}
+
+// TODO: mapped type - an optional rule for every property of T, typed by the property value
+export type Schema<T> = { [K in keyof T]?: FieldRule<T[K], T> };
+
+export type FieldErrors<T> = { [K in keyof T]?: string[] };
+
+// the rejection of a fetch or save with invalid fields - the errors of the `invalid` event
+export class ValidationError<T> extends Error {
+  constructor(
+    public readonly errors: FieldErrors<T>,
+    name: string = "model",
+  ) {
+    super(`Invalid ${name}: ${Object.keys(errors).join(", ")}`);
+    this.name = "ValidationError";
+  }
+}
+
+export const hasErrors = <T>(errors: FieldErrors<T>): boolean => {
+  return Object.keys(errors).length > 0;
+};
+
+const validateField = <T, K extends keyof T>(
+  rule: FieldRule<T[K], T>,
+  value: T[K],
+  attrs: T,
+): string[] => {
+  if (value === undefined || value === null || value === "") {
+    return rule.required ? ["is required"] : [];
+  }
+
+  if (
+    rule.type &&
+    (typeof value !== rule.type ||
+      (typeof value === "number" && Number.isNaN(value)))
+  ) {
+    return [`must be a ${rule.type}`];
+  }
+
+  const errors: string[] = [];
+  const size =
+    typeof value === "number"
+      ? value
+      : typeof value === "string"
+        ? value.length
+        : undefined;
+  const unit = typeof value === "string" ? " characters" : "";
+
+  if (size !== undefined && rule.min !== undefined && size < rule.min) {
+    errors.push(`must be at least ${rule.min}${unit}`);
+  }
+  if (size !== undefined && rule.max !== undefined && size > rule.max) {
+    errors.push(`must be at most ${rule.max}${unit}`);
+  }
+  for (const check of rule.checks || []) {
+    if (!check.test(value as NonNullable<T[K]>, attrs)) {
+      errors.push(check.message);
+    }
+  }
+  return errors;
+};
+
+// validate `fields` of attrs (all fields of the schema by default)
+export const validate = <T extends object>(
+  schema: Schema<T>,
+  attrs: T,
+  fields: (keyof T)[] = Object.keys(schema) as (keyof T)[],
+): FieldErrors<T> => {
+  const errors: FieldErrors<T> = {};
+  for (const key of fields) {
+    const rule = schema[key];
+    if (!rule) {
+      continue;
+    }
+    const fieldErrors = validateField(rule, attrs[key], attrs);
+    if (fieldErrors.length > 0) {
+      errors[key] = fieldErrors;
+    }
+  }
+  return errors;
+};
@@ -0,0 +1,129 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, test } from "vitest";
+import { MemorySync } from "../models/MemorySync";
+import { SyncError } from "../models/Sync";
+import { User, type UserProps } from "../models/User";
+import { NotFound } from "../views/NotFound";
+import { UserShow } from "../views/UserShow";
+import { type Match, Router } from "./Router";
+
+let root: HTMLElement;
+let sync: MemorySync<UserProps>;
+let log: string[];
+
+beforeEach(() => {
+  root = document.createElement("div");
+  sync = new MemorySync<UserProps>([{ id: "1", name: "a", age: 30 }]);
+  log = [];
+  User.identityMap.clear();
+  window.location.hash = "";
+});
+
+const router = () =>
+  new Router(root)
+    .route("/users/:id", {
+      load: ({ id }) => User.instance({ id }, { sync }).fetch(),
+      view: (root, user) => new UserShow(root, user),
+      enter: ({ id }) => {
+        log.push(`enter ${id}`);
+      },
+      leave: ({ id }) => {
+        log.push(`leave ${id}`);
+      },
+    })
+    .notFound({ view: (root) => new NotFound(root) });
+
+// the next route that is rendered
+const changed = (router: Router) =>
+  new Promise<Match>((resolve) => {
+    const unsubscribe = router.on("change", (match) => {
+      unsubscribe();
+      resolve(match);
+    });
+  });
+
+describe("Router", () => {
+  test("renders the view with the data loaded for the params", async () => {
+    await router().resolve("/users/1");
+
+    expect(root.textContent).toContain("User Name: a");
+    expect(log).toEqual(["enter 1"]);
+  });
+
+  test("renders the not-found route", async () => {
+    await router().resolve("/posts");
+    expect(root.textContent).toContain("Page not found");
+
+    const missing = new Router(root)
+      .route("/users/:id", {
+        load: () =>
+          Promise.reject(new SyncError("Failed", undefined, "http", 404)),
+        view: (root) => new UserShow(root, new User()),
+      })
+      .notFound({ view: (root) => new NotFound(root) });
+    const errors: unknown[] = [];
+    missing.on("error", (error) => {
+      errors.push(error);
+    });
+    await missing.resolve("/users/9");
+    expect(errors).toHaveLength(1);
+    expect(root.textContent).toContain("Page not found");
+  });
+
+  test("follows the hash and navigate", async () => {
+    const users = router();
+    await users.start();
+    expect(root.textContent).toContain("Page not found");
+
+    const next = changed(users);
+    users.navigate(users.href("/users/:id", { id: "1" }).slice(1));
+    expect(await next).toEqual({
+      pattern: "/users/:id",
+      path: "/users/1",
+      params: { id: "1" },
+    });
+    expect(root.textContent).toContain("User Name: a");
+    users.stop();
+  });
+
+  test("runs leave before the next enter, false cancels", async () => {
+    sync.records.push({ id: "2", name: "b" });
+    let leave = true;
+    const users = new Router(root).route("/users/:id", {
+      load: ({ id }) => User.instance({ id }, { sync }).fetch(),
+      view: (root, user) => new UserShow(root, user),
+      enter: ({ id }) => {
+        log.push(`enter ${id}`);
+      },
+      leave: () => leave,
+    });
+
+    await users.resolve("/users/1");
+    leave = false;
+    await users.resolve("/users/2");
+
+    expect(log).toEqual(["enter 1"]);
+    expect(root.textContent).toContain("User Name: a");
+  });
+
+  test("reports a navigation that throws", async () => {
+    const users = new Router(root).route("/users/:id", {
+      view: () => {
+        throw new Error("broken view");
+      },
+    });
+    await users.start();
+
+    const error = await new Promise((resolve) => {
+      users.on("error", resolve);
+      users.navigate("/users/1");
+    });
+
+    expect(error).toEqual(new Error("broken view"));
+    users.stop();
+  });
+
+  test("href fills in the params", () => {
+    expect(router().href("/users/:id", { id: "a b" })).toBe("#/users/a%20b");
+  });
+});
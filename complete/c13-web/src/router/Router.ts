@@ -0,0 +1,229 @@
+import { Eventing, type Observable } from "../models/Eventing";
+import { SyncError } from "../models/Sync";
+import type { View } from "../views/View";
+
+// TODO: template literal types - "/users/:id/posts/:postId" => { id: string; postId: string }
+export type RouteParams<P extends string> =
+  P extends `${string}:${infer Param}/${infer Rest}`
+    ? { [K in Param]: string } & RouteParams<`/${Rest}`>
+    : P extends `${string}:${infer Param}`
+      ? { [K in Param]: string }
+      : {};
+
+type AnyView = View<Observable<{ change: unknown }>>;
+
+// returning false from enter or leave cancels the navigation
+export type Guard<Params> = (
+  params: Params,
+) => boolean | void | Promise<boolean | void>;
+
+// D - the data the view is rendered with, e.g. the fetched User
+export interface RouteOptions<Params, D> {
+  // awaited before the view is rendered, e.g. ({ id }) => User.instance({ id }).fetch()
+  load?: (params: Params) => Promise<D>;
+  view: (root: Element, data: D, params: Params) => AnyView;
+  enter?: Guard<Params>;
+  leave?: Guard<Params>;
+}
+
+// the route that was rendered, path - the hash without "#"
+export interface Match {
+  pattern: string;
+  path: string;
+  params: { [param: string]: string };
+}
+
+// change - the route was rendered, error - its data could not be loaded
+export type RouterEvents = {
+  change: Match;
+  error: unknown;
+};
+
+interface Route {
+  pattern: string;
+  regexp: RegExp;
+  names: string[];
+  // the params and data differ per route, `route` and `notFound` check them
+  options: unknown;
+}
+
+// how the router calls the options of a route, with the matched params and the loaded data
+type CalledOptions = RouteOptions<{ [param: string]: string }, unknown>;
+
+const optionsOf = (route: Route): CalledOptions => {
+  return route.options as CalledOptions;
+};
+
+// "#/users/:id" routes rendered into the root element
+// a route whose load rejects with a 404 renders the not-found route
+export class Router {
+  events: Eventing<RouterEvents> = new Eventing<RouterEvents>();
+  private routes: Route[] = [];
+  private notFoundRoute?: Route;
+  private current?: { route: Route; match: Match; view: AnyView };
+  // bumped on every navigation, a slower load of an older one is dropped
+  private navigation = 0;
+  // the hash that was put back after a cancelled navigation
+  private restoring?: string;
+
+  constructor(
+    public root: Element,
+    private window: Window = globalThis.window,
+  ) {}
+
+  get on() {
+    return this.events.on;
+  }
+
+  route = <P extends string, D = undefined>(
+    pattern: P,
+    options: RouteOptions<RouteParams<P>, D>,
+  ): this => {
+    const names: string[] = [];
+    const source = pattern
+      .split("/")
+      .map((segment) => {
+        if (!segment.startsWith(":")) {
+          return segment.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+        }
+        names.push(segment.slice(1));
+        return "([^/]+)";
+      })
+      .join("/");
+    this.routes.push({
+      pattern,
+      regexp: new RegExp(`^${source}/?$`),
+      names,
+      options,
+    });
+    return this;
+  };
+
+  // rendered for a path no route matches
+  notFound = <D = undefined>(options: RouteOptions<{}, D>): this => {
+    this.notFoundRoute = { pattern: "*", regexp: /.*/, names: [], options };
+    return this;
+  };
+
+  // follow the hash from now on, the current one is rendered right away
+  start = (): Promise<void> => {
+    this.window.addEventListener("hashchange", this.onHashChange);
+    return this.resolve(this.path());
+  };
+
+  stop = (): void => {
+    this.window.removeEventListener("hashchange", this.onHashChange);
+  };
+
+  // navigate("/users/1") - the hashchange renders the route
+  navigate = (path: string): void => {
+    this.window.location.hash = path;
+  };
+
+  // href("/users/:id", { id: "1" }) => "#/users/1"
+  href = <P extends string>(pattern: P, params: RouteParams<P>): string => {
+    const values = params as { [param: string]: string };
+    return `#${pattern.replace(/:([^/]+)/g, (_, name: string) =>
+      encodeURIComponent(values[name]),
+    )}`;
+  };
+
+  private path(): string {
+    return this.window.location.hash.replace(/^#/, "") || "/";
+  }
+
+  private onHashChange = (): void => {
+    const path = this.path();
+    if (path === this.restoring) {
+      this.restoring = undefined;
+      return;
+    }
+    // a guard or view that throws is reported like a failed load
+    this.resolve(path).catch((error: unknown) =>
+      this.events.trigger("error", error),
+    );
+  };
+
+  // leave the current route, enter the matching one, load its data, render its view
+  resolve = async (path: string): Promise<void> => {
+    const navigation = ++this.navigation;
+    const [route, match] = this.match(path);
+    const previous = this.current;
+    if (!route) {
+      previous?.view.remove();
+      this.current = undefined;
+      return;
+    }
+
+    if (
+      previous &&
+      (await optionsOf(previous.route).leave?.(previous.match.params)) === false
+    ) {
+      this.cancel(previous.match.path);
+      return;
+    }
+    const options = optionsOf(route);
+    if ((await options.enter?.(match.params)) === false) {
+      if (previous) {
+        this.cancel(previous.match.path);
+      }
+      return;
+    }
+
+    let data: unknown;
+    try {
+      data = await options.load?.(match.params);
+    } catch (error) {
+      if (navigation !== this.navigation) {
+        return;
+      }
+      this.events.trigger("error", error);
+      if (
+        error instanceof SyncError &&
+        error.status === 404 &&
+        this.notFoundRoute
+      ) {
+        this.render(
+          this.notFoundRoute,
+          { ...match, pattern: "*", params: {} },
+          undefined,
+        );
+      }
+      return;
+    }
+    if (navigation === this.navigation) {
+      this.render(route, match, data);
+    }
+  };
+
+  // the not-found route when nothing matches, there may be none
+  private match(path: string): [Route | undefined, Match] {
+    for (const route of this.routes) {
+      const result = route.regexp.exec(path);
+      if (result) {
+        const params: { [param: string]: string } = {};
+        route.names.forEach((name, i) => {
+          params[name] = decodeURIComponent(result[i + 1]);
+        });
+        return [route, { pattern: route.pattern, path, params }];
+      }
+    }
+    return [this.notFoundRoute, { pattern: "*", path, params: {} }];
+  }
+
+  private render(route: Route, match: Match, data: unknown): void {
+    this.current?.view.remove();
+    const view = optionsOf(route).view(this.root, data, match.params);
+    view.render();
+    this.current = { route, match, view };
+    this.events.trigger("change", match);
+  }
+
+  // put the hash of the current route back without rendering it again
+  private cancel(path: string): void {
+    if (this.path() !== path) {
+      this.restoring = path;
+      this.window.location.hash = path;
+    }
+  }
+}
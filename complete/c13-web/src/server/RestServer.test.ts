@@ -0,0 +1,180 @@
+import { mkdtemp, readFile, rm, writeFile } from "fs/promises";
+import { tmpdir } from "os";
+import { join } from "path";
+import { afterEach, beforeEach, describe, expect, test } from "vitest";
+import { ApiSync } from "../models/ApiSync";
+import { ConflictError, SyncError } from "../models/Sync";
+import { User, type UserProps } from "../models/User";
+import { type RestServer, startServer } from "./RestServer";
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 50));
+
+let dir: string;
+let file: string;
+let server: RestServer;
+
+const stored = async (): Promise<{ [resource: string]: unknown[] }> => {
+  return JSON.parse(await readFile(file, "utf-8"));
+};
+
+beforeEach(async () => {
+  dir = await mkdtemp(join(tmpdir(), "rest-server-"));
+  file = join(dir, "db.json");
+  await writeFile(
+    file,
+    JSON.stringify({
+      users: [
+        { id: "1", name: "ann", age: 40, version: 1 },
+        { id: "2", name: "bob", age: 30, version: 1 },
+        { id: "3", name: "cid", age: 50, version: 1 },
+      ],
+      posts: [
+        { id: "p1", title: "a", userId: "1" },
+        { id: "p2", title: "b", userId: "2" },
+      ],
+    }),
+  );
+  server = await startServer({ file });
+});
+
+afterEach(async () => {
+  await server.stop();
+  await rm(dir, { recursive: true, force: true });
+});
+
+describe("RestServer", () => {
+  test("serves every collection of the file", async () => {
+    const posts = new ApiSync<{ id?: string; title?: string }>(
+      `${server.url}/posts`,
+    );
+
+    expect(await posts.fetch("p2")).toEqual({
+      id: "p2",
+      title: "b",
+      userId: "2",
+    });
+    expect(await new ApiSync(`${server.url}/users/1/posts`).fetchAll()).toEqual(
+      [{ id: "p1", title: "a", userId: "1" }],
+    );
+  });
+
+  test("filters, sorts and paginates", async () => {
+    const sync = new ApiSync<UserProps>(`${server.url}/users`);
+
+    const page = await sync.fetchQuery({
+      where: [{ field: "age", op: ">", value: 30 }],
+      sort: [{ field: "age", order: "desc" }],
+      page: 1,
+      limit: 1,
+    });
+
+    expect(page).toEqual({
+      records: [{ id: "3", name: "cid", age: 50, version: 1 }],
+      total: 2,
+    });
+    expect(await sync.fetchWhere({ name: "bob" })).toEqual([
+      { id: "2", name: "bob", age: 30, version: 1 },
+    ]);
+  });
+
+  test("a json patch removes the fields that are undefined", async () => {
+    const sync = new ApiSync<UserProps>(`${server.url}/users`);
+
+    await sync.patch("2", { name: "b", age: undefined });
+
+    expect((await stored()).users[1]).toEqual({
+      id: "2",
+      name: "b",
+      version: 2,
+    });
+  });
+
+  test("creates, updates, patches and deletes", async () => {
+    const sync = new ApiSync<UserProps>(`${server.url}/users`, {
+      patchFormat: "merge-patch",
+    });
+
+    const created = await sync.save({ name: "dan" });
+    expect(created).toEqual({
+      id: expect.any(String),
+      name: "dan",
+      version: 1,
+    });
+
+    await sync.save({ id: "1", name: "anna", age: 41 }, { expectedVersion: 1 });
+    await sync.patch("2", { age: undefined });
+    await sync.delete("3");
+
+    expect((await stored()).users).toEqual([
+      { id: "1", name: "anna", age: 41, version: 2 },
+      { id: "2", name: "bob", version: 2 },
+      created,
+    ]);
+  });
+
+  test("answers missing records and stale versions", async () => {
+    const sync = new ApiSync<UserProps>(`${server.url}/users`);
+
+    const missing = await sync.fetch("9").catch((error: unknown) => error);
+    expect(missing).toBeInstanceOf(SyncError);
+    expect((missing as SyncError).status).toBe(404);
+
+    const stale = await sync
+      .patch("1", { name: "x" }, { expectedVersion: 0 })
+      .catch((error: unknown) => error);
+    expect(stale).toBeInstanceOf(ConflictError);
+    expect((await stored()).users[0]).toMatchObject({ name: "ann" });
+  });
+});
+
+describe("User end to end", () => {
+  test("fetches, saves and lists users", async () => {
+    const sync = new ApiSync<UserProps>(`${server.url}/users`);
+    const user = new User({ id: "1" }, { sync });
+
+    user.fetch();
+    await flush();
+    expect(user.get("name")).toBe("ann");
+
+    user.set({ age: 42 });
+    user.save();
+    await flush();
+    expect(user.get("version")).toBe(2);
+    expect((await stored()).users[0]).toEqual({
+      id: "1",
+      name: "ann",
+      age: 42,
+      version: 2,
+    });
+
+    const { collection, pagination } = await User.query(sync)
+      .where("name", "like", "^[ab]")
+      .sort("name")
+      .page(1, 10)
+      .fetch();
+    expect(collection.models.map((model) => model.get("name"))).toEqual([
+      "ann",
+      "bob",
+    ]);
+    expect(pagination.total).toBe(2);
+  });
+
+  test("reports a conflict with a newer server copy", async () => {
+    const sync = new ApiSync<UserProps>(`${server.url}/users`);
+    const user = new User({ id: "2" }, { sync });
+    const conflicts: unknown[] = [];
+    user.on("conflict", (conflict) => {
+      conflicts.push(conflict.remote);
+    });
+    user.fetch();
+    await flush();
+
+    await sync.patch("2", { name: "someone" });
+    user.set({ name: "me" });
+    await expect(user.save()).rejects.toBeInstanceOf(ConflictError);
+
+    expect(conflicts).toEqual([
+      { id: "2", name: "someone", age: 30, version: 2 },
+    ]);
+  });
+});
@@ -0,0 +1,309 @@
+import {
+  createServer,
+  type IncomingMessage,
+  type Server,
+  type ServerResponse,
+} from "http";
+import type { AddressInfo } from "net";
+import { WebSocketServer } from "ws";
+import { FileSync } from "../models/FileSync";
+import {
+  type PatchFormat,
+  fromPatch,
+  patchContentTypes,
+} from "../models/Patch";
+import { type QueryParams, fromParams } from "../models/Query";
+import type { RealtimeEvent } from "../models/Realtime";
+import { ConflictError, type HasId, type RequestOptions } from "../models/Sync";
+
+export interface RestServerOptions {
+  // a db.json shaped file - resource name => records
+  file: string;
+  // 0 - a random free port
+  port?: number;
+  host?: string;
+}
+
+type JsonRecord = HasId & { [key: string]: unknown };
+
+// an error answered with its status
+class HttpError extends Error {
+  constructor(
+    public readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+const cors = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, POST, PUT, PATCH, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type, If-Match",
+  "Access-Control-Expose-Headers": "X-Total-Count",
+};
+
+const send = (
+  res: ServerResponse,
+  status: number,
+  body: unknown,
+  headers: { [name: string]: string } = {},
+): void => {
+  res.writeHead(status, {
+    ...cors,
+    ...headers,
+    "Content-Type": "application/json",
+  });
+  res.end(JSON.stringify(body));
+};
+
+const readBody = async (req: IncomingMessage): Promise<unknown> => {
+  let text = "";
+  for await (const chunk of req) {
+    text += chunk;
+  }
+  try {
+    return text ? JSON.parse(text) : {};
+  } catch {
+    throw new HttpError(400, "The body is no valid json");
+  }
+};
+
+// a=1&a=2 => { a: ["1", "2"] }
+const toQueryParams = (search: URLSearchParams): QueryParams => {
+  const params: QueryParams = {};
+  for (const key of new Set(search.keys())) {
+    const values = search.getAll(key);
+    params[key] = values.length === 1 ? values[0] : values;
+  }
+  return params;
+};
+
+// If-Match: "3" => 3
+const expectedVersion = (req: IncomingMessage): RequestOptions => {
+  const match = /^"?(\d+)"?$/.exec(req.headers["if-match"] || "");
+  return match ? { expectedVersion: Number(match[1]) } : {};
+};
+
+const patchFormat = (req: IncomingMessage): PatchFormat => {
+  const type = (req.headers["content-type"] || "application/json").split(
+    ";",
+  )[0];
+  const format = (Object.keys(patchContentTypes) as PatchFormat[]).find(
+    (format) => patchContentTypes[format] === type,
+  );
+  if (!format) {
+    throw new HttpError(415, `Unsupported content type ${type}`);
+  }
+  return format;
+};
+
+// json-server without the global install - every collection of the file is a resource
+// /users, /users/:id and /users/:id/posts (the posts with userId = id)
+// the requests run one after another, every write replaces the file atomically
+// every write is broadcast to the websockets connected to /realtime
+export class RestServer {
+  private server?: Server;
+  private sockets?: WebSocketServer;
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(public options: RestServerOptions) {}
+
+  // e.g. http://127.0.0.1:53124
+  get url(): string {
+    const address = this.server?.address() as AddressInfo | null | undefined;
+    if (!address) {
+      throw new Error("The server is not started");
+    }
+    return `http://${this.options.host ?? "127.0.0.1"}:${address.port}`;
+  }
+
+  // e.g. ws://127.0.0.1:53124/realtime
+  get realtimeUrl(): string {
+    return `${this.url.replace(/^http/, "ws")}/realtime`;
+  }
+
+  start = async (): Promise<string> => {
+    const server = createServer((req, res) => {
+      this.queue = this.queue.then(() => this.respond(req, res));
+    });
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(
+        this.options.port ?? 0,
+        this.options.host ?? "127.0.0.1",
+        resolve,
+      );
+    });
+    this.server = server;
+    this.sockets = new WebSocketServer({ server, path: "/realtime" });
+    return this.url;
+  };
+
+  stop = async (): Promise<void> => {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+    this.server = undefined;
+    // upgraded connections are no longer tracked by the http server
+    this.sockets?.clients.forEach((socket) => socket.terminate());
+    this.sockets?.close();
+    this.sockets = undefined;
+    server.closeAllConnections();
+    await new Promise((resolve) => server.close(resolve));
+  };
+
+  private async respond(
+    req: IncomingMessage,
+    res: ServerResponse,
+  ): Promise<void> {
+    try {
+      await this.route(req, res);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        send(res, error.status, { error: error.message });
+      } else if (error instanceof ConflictError) {
+        // the If-Match version is not the stored one
+        send(res, 412, error.remote);
+      } else {
+        send(res, 500, { error: String(error) });
+      }
+    }
+  }
+
+  private async route(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url || "/", "http://localhost");
+    const [resource, id, nested, ...rest] = url.pathname
+      .split("/")
+      .filter(Boolean)
+      .map(decodeURIComponent);
+    if (req.method === "OPTIONS") {
+      res.writeHead(204, cors);
+      res.end();
+      return;
+    }
+    if (!resource || rest.length > 0) {
+      throw new HttpError(404, `Cannot ${req.method} ${url.pathname}`);
+    }
+
+    const params = toQueryParams(url.searchParams);
+    if (nested) {
+      // /users/1/posts - json-server names the foreign key after the singular of the parent
+      if (req.method !== "GET") {
+        throw new HttpError(405, `Cannot ${req.method} ${url.pathname}`);
+      }
+      await this.list(res, nested, {
+        ...params,
+        [`${resource.replace(/s$/, "")}Id`]: id,
+      });
+      return;
+    }
+
+    switch (req.method) {
+      case "GET":
+        if (id) {
+          send(res, 200, await this.find(resource, id));
+        } else {
+          await this.list(res, resource, params);
+        }
+        return;
+      case "POST":
+        if (!id) {
+          const data = await this.create(resource, await readBody(req));
+          send(res, 201, data);
+          this.broadcast({ type: "created", resource, id: data.id!, data });
+          return;
+        }
+        break;
+      case "PUT":
+        if (id) {
+          await this.find(resource, id);
+          const data = await this.sync(resource).save(
+            { ...((await readBody(req)) as JsonRecord), id },
+            expectedVersion(req),
+          );
+          send(res, 200, data);
+          this.broadcast({ type: "updated", resource, id, data });
+          return;
+        }
+        break;
+      case "PATCH":
+        if (id) {
+          const format = patchFormat(req);
+          await this.find(resource, id);
+          const data = await this.sync(resource).patch(
+            id,
+            fromPatch<JsonRecord>(await readBody(req), format),
+            expectedVersion(req),
+          );
+          send(res, 200, data);
+          this.broadcast({ type: "updated", resource, id, data });
+          return;
+        }
+        break;
+      case "DELETE":
+        if (id) {
+          await this.find(resource, id);
+          await this.sync(resource).delete(id);
+          send(res, 200, {});
+          this.broadcast({ type: "deleted", resource, id });
+          return;
+        }
+        break;
+    }
+    throw new HttpError(405, `Cannot ${req.method} ${url.pathname}`);
+  }
+
+  private broadcast(event: RealtimeEvent<JsonRecord>): void {
+    const message = JSON.stringify(event);
+    this.sockets?.clients.forEach((socket) => {
+      if (socket.readyState === socket.OPEN) {
+        socket.send(message);
+      }
+    });
+  }
+
+  private sync(resource: string): FileSync<JsonRecord> {
+    return new FileSync<JsonRecord>(this.options.file, resource);
+  }
+
+  private async find(resource: string, id: string): Promise<JsonRecord> {
+    const [record] = await this.sync(resource).fetchWhere({ id });
+    if (!record) {
+      throw new HttpError(404, `${resource}/${id} not found`);
+    }
+    return record;
+  }
+
+  // the total of all pages goes into X-Total-Count, the same as json-server
+  private async list(
+    res: ServerResponse,
+    resource: string,
+    params: QueryParams,
+  ): Promise<void> {
+    const query = fromParams<JsonRecord>(params);
+    const { records, total } = await this.sync(resource).fetchQuery(query);
+    send(res, 200, records, { "X-Total-Count": String(total) });
+  }
+
+  // a posted id is kept, the new record gets version 1
+  private async create(resource: string, body: unknown): Promise<JsonRecord> {
+    const data = body as JsonRecord;
+    const sync = this.sync(resource);
+    if (data.id && (await sync.fetchWhere({ id: data.id })).length > 0) {
+      throw new HttpError(409, `${resource}/${data.id} already exists`);
+    }
+    return sync.save({ ...data, version: undefined });
+  }
+}
+
+// const server = await startServer({ file: "db.json" }); new ApiSync(`${server.url}/users`)
+export const startServer = async (
+  options: RestServerOptions,
+): Promise<RestServer> => {
+  const server = new RestServer(options);
+  await server.start();
+  return server;
+};
@@ -0,0 +1,111 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, test } from "vitest";
+import { buildModel } from "../models/Model";
+import { User } from "../models/User";
+import { FormBinding } from "./FormBinding";
+
+interface MemberProps {
+  id?: string;
+  role?: string;
+  active?: boolean;
+}
+
+class Member extends buildModel<MemberProps>({
+  url: "",
+  schema: { active: { type: "boolean" } },
+}) {}
+
+let form: HTMLFormElement;
+
+beforeEach(() => {
+  form = document.createElement("form");
+  form.innerHTML = `
+    <input class="name" />
+    <span data-error="name"></span>
+    <input class="age" type="number" />
+    <span data-error="age"></span>
+    <input class="active" type="checkbox" />
+    <select class="role">
+      <option value="guest">guest</option>
+      <option value="admin">admin</option>
+    </select>
+  `;
+  document.body.replaceChildren(form);
+});
+
+const control = <E extends Element>(selector: string): E => {
+  return form.querySelector(selector) as unknown as E;
+};
+
+const type = (input: HTMLInputElement, value: string): void => {
+  input.value = value;
+  input.dispatchEvent(new Event("input"));
+};
+
+describe("FormBinding", () => {
+  test("fills the controls and sets the typed values on input", () => {
+    const user = new User({ name: "a", age: 30 });
+    new FormBinding(form, user, { name: "input.name", age: "input.age" });
+    const age = control<HTMLInputElement>("input.age");
+
+    expect(control<HTMLInputElement>("input.name").value).toBe("a");
+    expect(age.value).toBe("30");
+
+    type(age, "31");
+    expect(user.get("age")).toBe(31);
+  });
+
+  test("checkbox and select", () => {
+    const member = new Member({ role: "guest", active: false });
+    new FormBinding(form, member, {
+      active: "input.active",
+      role: "select.role",
+    });
+    const active = control<HTMLInputElement>("input.active");
+    const role = control<HTMLSelectElement>("select.role");
+
+    active.click();
+    role.value = "admin";
+    role.dispatchEvent(new Event("change"));
+
+    expect(member.attributes.getAll()).toEqual({ role: "admin", active: true });
+  });
+
+  test("updates the controls on change", () => {
+    const user = new User({ name: "a", age: 30 });
+    new FormBinding(form, user, { name: "input.name", age: "input.age" });
+
+    user.set({ name: "b", age: 40 });
+
+    expect(control<HTMLInputElement>("input.name").value).toBe("b");
+    expect(control<HTMLInputElement>("input.age").value).toBe("40");
+  });
+
+  test("shows the validation messages until the field is valid", () => {
+    const user = new User({ name: "a", age: 30 });
+    new FormBinding(form, user, { name: "input.name", age: "input.age" });
+    const name = control<HTMLInputElement>("input.name");
+
+    type(name, "");
+    expect(control("[data-error=name]").textContent).not.toBe("");
+    expect(name.getAttribute("aria-invalid")).toBe("true");
+    expect(user.get("name")).toBe("a");
+
+    type(name, "b");
+    expect(control("[data-error=name]").textContent).toBe("");
+    expect(name.getAttribute("aria-invalid")).toBe("false");
+  });
+
+  test("unbind stops both directions", () => {
+    const user = new User({ name: "a" });
+    const binding = new FormBinding(form, user, { name: "input.name" });
+    const name = control<HTMLInputElement>("input.name");
+
+    binding.unbind();
+    type(name, "b");
+    user.set({ name: "c" });
+
+    expect(user.get("name")).toBe("c");
+    expect(name.value).toBe("b");
+  });
+});
@@ -0,0 +1,133 @@
+import type { Unsubscribe } from "../models/Eventing";
+import type { Model } from "../models/Model";
+import type { HasId } from "../models/Sync";
+import {
+  type Codec,
+  type Codecs,
+  booleanCodec,
+  numberCodec,
+  parse,
+} from "../models/Codec";
+import type { FieldErrors } from "../models/Validation";
+
+// model key => css selector of its control, e.g. { name: "input.name", age: "input.age" }
+export type Bindings<T> = { [K in keyof T]?: string };
+
+type Control = HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement;
+
+// the codec of a field without one - the schema type decides
+const schemaCodecs: { [type: string]: Codec<number> | Codec<boolean> } = {
+  number: numberCodec,
+  boolean: booleanCodec,
+};
+
+// two-way binding of form controls (text, number, checkbox, select) to model keys
+// the input is converted by the codec or schema type of the field, the messages of an invalid field
+// are shown in the element with data-error="<key>", the control gets aria-invalid
+export class FormBinding<T extends HasId> {
+  private controls = new Map<keyof T, Control>();
+  private unsubscribes: Unsubscribe[] = [];
+  // the key being set from its own control, it is not written back
+  private updating?: keyof T;
+
+  constructor(
+    public form: Element,
+    public model: Model<T, unknown>,
+    bindings: Bindings<T>,
+  ) {
+    for (const key of Object.keys(bindings) as (keyof T)[]) {
+      const control = form.querySelector<Control>(bindings[key] as string);
+      if (!control) {
+        continue;
+      }
+      const eventName = isInput(control) ? "input" : "change";
+      const listener = () => this.onInput(key, control);
+      control.addEventListener(eventName, listener);
+      this.unsubscribes.push(() =>
+        control.removeEventListener(eventName, listener),
+      );
+      this.controls.set(key, control);
+      this.write(key, control);
+    }
+    this.unsubscribes.push(
+      model.on("change", (changes) => {
+        for (const key of Object.keys(changes) as (keyof T)[]) {
+          const control = this.controls.get(key);
+          this.showErrors(key, []);
+          if (control && key !== this.updating) {
+            this.write(key, control);
+          }
+        }
+      }),
+      model.on("invalid", (errors: FieldErrors<T>) => {
+        for (const key of Object.keys(errors) as (keyof T)[]) {
+          this.showErrors(key, errors[key] || []);
+        }
+      }),
+    );
+  }
+
+  // stop listening to the controls and the model
+  unbind = (): void => {
+    this.unsubscribes.forEach((unsubscribe) => unsubscribe());
+    this.unsubscribes = [];
+    this.controls.clear();
+  };
+
+  private onInput(key: keyof T, control: Control): void {
+    const raw =
+      control instanceof HTMLInputElement && control.type === "checkbox"
+        ? control.checked
+        : control.value;
+    const { data, errors } = parse(this.codecsOf(key), {
+      [key]: raw,
+    } as unknown as T);
+    if (errors[key]) {
+      this.showErrors(key, errors[key] || []);
+      return;
+    }
+    this.updating = key;
+    try {
+      this.model.set(data);
+    } finally {
+      this.updating = undefined;
+    }
+  }
+
+  private codecsOf(key: keyof T): Codecs<T> {
+    const type = this.model.attributes.schema[key]?.type;
+    const codec = this.model.codecs[key] || (type && schemaCodecs[type]);
+    // the schema type is the one of the field, so the codec of the type fits it
+    return (codec ? { [key]: codec } : {}) as unknown as Codecs<T>;
+  }
+
+  private write(key: keyof T, control: Control): void {
+    const value: unknown = this.model.attributes.get(key);
+    if (control instanceof HTMLInputElement && control.type === "checkbox") {
+      control.checked = Boolean(value);
+    } else {
+      control.value =
+        value === undefined || value === null ? "" : String(value);
+    }
+  }
+
+  private showErrors(key: keyof T, messages: string[]): void {
+    this.controls
+      .get(key)
+      ?.setAttribute("aria-invalid", String(messages.length > 0));
+    const element = this.form.querySelector(`[data-error="${String(key)}"]`);
+    if (element) {
+      element.textContent = messages.join(", ");
+    }
+  }
+}
+
+// typing fires input, a checkbox or select only counts once it changed
+const isInput = (control: Control): boolean => {
+  return (
+    control instanceof HTMLTextAreaElement ||
+    (control instanceof HTMLInputElement &&
+      control.type !== "checkbox" &&
+      control.type !== "radio")
+  );
+};
@@ -0,0 +1,18 @@
+import { Eventing } from "../models/Eventing";
+import { View } from "./View";
+
+// the page of an unknown hash - it has no model, nothing re-renders it
+export class NotFound extends View<Eventing<{ change: void }>> {
+  constructor(parent: Element) {
+    super(parent, new Eventing<{ change: void }>());
+  }
+
+  template(): string {
+    return `
+      <div>
+        <h1>Page not found</h1>
+        <a href="#/users">Users</a>
+      </div>
+    `;
+  }
+}
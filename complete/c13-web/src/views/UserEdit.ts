@@ -0,0 +1,28 @@
+import { User } from "../models/User";
+import { UserForm } from "./UserForm";
+import { UserShow } from "./UserShow";
+import { type RegionsMap, View } from "./View";
+
+// composite view - show and form nested into named regions
+export class UserEdit extends View<User> {
+  regionsMap(): RegionsMap {
+    return {
+      userShow: ".user-show",
+      userForm: ".user-form",
+    };
+  }
+
+  onRender(): void {
+    this.renderChild(new UserShow(this.regions.userShow, this.model));
+    this.renderChild(new UserForm(this.regions.userForm, this.model));
+  }
+
+  template(): string {
+    return `
+      <div>
+        <div class="user-show"></div>
+        <div class="user-form"></div>
+      </div>
+    `;
+  }
+}
@@ -0,0 +1,39 @@
+import { User } from "../models/User";
+import { type EventsMap, View, escape } from "./View";
+
+export class UserForm extends View<User> {
+  eventsMap(): EventsMap {
+    return {
+      "click:.set-age": this.onSetAgeClick,
+      "click:.set-name": this.onSetNameClick,
+      "click:.save-model": this.onSaveClick,
+    };
+  }
+
+  onSetAgeClick = (): void => {
+    this.model.set({ age: Math.round(Math.random() * 100) });
+  };
+
+  onSetNameClick = (): void => {
+    const input = this.parent.querySelector("input");
+    if (input) {
+      this.model.set({ name: input.value });
+    }
+  };
+
+  onSaveClick = (): void => {
+    // a failed save is shown through the invalid and error events
+    this.model.save().catch(() => undefined);
+  };
+
+  template(): string {
+    return `
+      <div>
+        <input placeholder="${escape(this.model.get("name"))}" />
+        <button class="set-name">Change Name</button>
+        <button class="set-age">Set Random Age</button>
+        <button class="save-model">Save User</button>
+      </div>
+    `;
+  }
+}
@@ -0,0 +1,27 @@
+import { type Collection } from "../models/Collection";
+import { type User, type UserProps } from "../models/User";
+import { View, escape } from "./View";
+
+// links to the detail page of every user, re-rendered when the collection changes
+export class UserList extends View<Collection<User, UserProps>> {
+  template(): string {
+    const items = this.model.models
+      .map(
+        (user) =>
+          `<li><a href="#/users/${escape(encodeURIComponent(user.get("id") ?? ""))}">${escape(user.get("displayName"))}</a></li>`,
+      )
+      .join("");
+    return `
+      <div>
+        <h1>Users</h1>
+        <ul>${items}</ul>
+      </div>
+    `;
+  }
+
+  // the collection was made for this list, the users it holds are shared
+  remove(): void {
+    super.remove();
+    this.model.unbind();
+  }
+}
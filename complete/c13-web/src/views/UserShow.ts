@@ -0,0 +1,15 @@
+import { User } from "../models/User";
+import { View, escape } from "./View";
+
+export class UserShow extends View<User> {
+  template(): string {
+    return `
+      <div>
+        <h1>User Detail</h1>
+        <div>User Name: ${escape(this.model.get("displayName"))}</div>
+        <div>User Age: ${escape(this.model.get("age"))}</div>
+        <div>Adult: ${this.model.get("isAdult") ? "yes" : "no"}</div>
+      </div>
+    `;
+  }
+}
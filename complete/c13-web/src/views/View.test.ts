@@ -0,0 +1,56 @@
+// @vitest-environment jsdom
+import { describe, expect, test } from "vitest";
+import { User, type UserProps } from "../models/User";
+import { MemorySync } from "../models/MemorySync";
+import { UserForm } from "./UserForm";
+import { UserList } from "./UserList";
+import { UserShow } from "./UserShow";
+import { escape } from "./View";
+
+const name = `<img src=x onerror="alert(1)">`;
+
+describe("templates", () => {
+  test("escape", () => {
+    expect(escape(`<a href="x">'&'</a>`)).toBe(
+      "&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;",
+    );
+    expect(escape(undefined)).toBe("");
+  });
+
+  test("names from the server are text, not html", () => {
+    const root = document.createElement("div");
+    const user = new User({ name });
+
+    new UserShow(root, user).render();
+    expect(root.querySelector("img")).toBeNull();
+    expect(root.textContent).toContain(name);
+
+    new UserForm(root, user).render();
+    expect(root.querySelector("img")).toBeNull();
+    expect(root.querySelector("input")?.placeholder).toBe(name);
+
+    const users = User.buildUserCollection(new MemorySync<UserProps>());
+    users.add(new User({ id: `"><img src=x>`, name }));
+    new UserList(root, users).render();
+    expect(root.querySelector("img")).toBeNull();
+    expect(root.querySelector("a")?.getAttribute("href")).toBe(
+      `#/users/${encodeURIComponent(`"><img src=x>`)}`,
+    );
+  });
+});
+
+describe("UserList", () => {
+  test("a removed list stops following its users", () => {
+    const root = document.createElement("div");
+    const user = new User({ id: "1", name: "a" });
+    const users = User.buildUserCollection(new MemorySync<UserProps>());
+    users.add(user);
+    const list = new UserList(root, users);
+    list.render();
+
+    list.remove();
+
+    expect(users.models).toEqual([]);
+    expect(user.events.events.change).toHaveLength(1);
+  });
+});
@@ -0,0 +1,109 @@
+import { type Observable, type Unsubscribe } from "../models/Eventing";
+
+// "click:button" => handler
+export type EventsMap = { [key: string]: () => void };
+
+// region name => css selector of the element that hosts the child view
+export type RegionsMap = { [key: string]: string };
+
+const entities: { [char: string]: string } = {
+  "&": "&amp;",
+  "<": "&lt;",
+  ">": "&gt;",
+  '"': "&quot;",
+  "'": "&#39;",
+};
+
+// every value put into a template - text or attribute - goes through escape, names come from the server
+export const escape = (value: unknown): string => {
+  return String(value ?? "").replace(/[&<>"']/g, (char) => entities[char]);
+};
+
+// M - the model rendered by the view, it only has to trigger `change`
+export abstract class View<M extends Observable<{ change: unknown }>> {
+  regions: { [key: string]: Element } = {};
+  // child views rendered into the regions, removed before every render
+  children: View<Observable<{ change: unknown }>>[] = [];
+  private unbindModel: Unsubscribe;
+
+  constructor(
+    public parent: Element,
+    public model: M,
+  ) {
+    this.unbindModel = this.bindModel();
+  }
+
+  abstract template(): string;
+
+  eventsMap(): EventsMap {
+    return {};
+  }
+
+  regionsMap(): RegionsMap {
+    return {};
+  }
+
+  // re-render whenever the model says some data changed
+  bindModel(): Unsubscribe {
+    return this.model.on("change", () => {
+      this.render();
+    });
+  }
+
+  bindEvents(fragment: DocumentFragment): void {
+    const eventsMap = this.eventsMap();
+    for (const eventKey in eventsMap) {
+      const [eventName, selector] = eventKey.split(":");
+      fragment.querySelectorAll(selector).forEach((element) => {
+        element.addEventListener(eventName, eventsMap[eventKey]);
+      });
+    }
+  }
+
+  mapRegions(fragment: DocumentFragment): void {
+    const regionsMap = this.regionsMap();
+    for (const key in regionsMap) {
+      const element = fragment.querySelector(regionsMap[key]);
+      if (element) {
+        this.regions[key] = element;
+      }
+    }
+  }
+
+  // hook for nesting child views into the regions
+  onRender(): void {}
+
+  renderChild(view: View<Observable<{ change: unknown }>>): void {
+    this.children.push(view);
+    view.render();
+  }
+
+  // stop listening to the model and clear the parent element
+  remove(): void {
+    this.removeChildren();
+    this.unbindModel();
+    this.parent.innerHTML = "";
+  }
+
+  private removeChildren(): void {
+    for (const child of this.children) {
+      child.remove();
+    }
+    this.children = [];
+  }
+
+  render(): void {
+    this.removeChildren();
+    this.parent.innerHTML = "";
+
+    // TODO: <template> parses the html without rendering it, its content is a DocumentFragment
+    const templateElement = document.createElement("template");
+    templateElement.innerHTML = this.template();
+
+    this.bindEvents(templateElement.content);
+    this.mapRegions(templateElement.content);
+    this.onRender();
+
+    this.parent.append(templateElement.content);
+  }
+}